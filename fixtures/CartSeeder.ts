@@ -0,0 +1,92 @@
+import { Page } from '@playwright/test';
+import { Route } from '../pages/BasePage';
+import { CartPage } from '../pages/CartPage';
+import { CheckoutPage } from '../pages/CheckoutPage';
+import { HeaderComponent } from '../pages/components/HeaderComponent';
+import { ProductKey, catalog } from './testData';
+
+/**
+ * localStorage key where SauceDemo keeps the cart as a JSON array of product ids
+ */
+const CART_STORAGE_KEY = 'cart-contents';
+
+/**
+ * CartSeeder writes cart contents straight into the browser's storage
+ * Lets cart and checkout tests skip adding items through the inventory page
+ */
+export class CartSeeder {
+  constructor(private readonly page: Page) {}
+
+  /**
+   * Replace the cart contents with the given products
+   * The page must be on the site's origin; a blank page is first sent to the login page
+   * @param items - Products to put in the cart, in cart order
+   * @example await cartSeeder.seed(['backpack', 'bikeLight'])
+   */
+  async seed(items: ProductKey[]): Promise<void> {
+    if (new Set(items).size !== items.length) {
+      throw new Error(`Cannot seed duplicate products, the cart holds one of each: ${items.join(', ')}`);
+    }
+    if (!this.page.url().startsWith('http')) {
+      await this.page.goto('/');
+    }
+
+    const ids = items.map((item) => catalog[item].id);
+    await this.page.evaluate(({ key, ids }) => {
+      if (ids.length === 0) {
+        localStorage.removeItem(key);
+      } else {
+        localStorage.setItem(key, JSON.stringify(ids));
+      }
+    }, { key: CART_STORAGE_KEY, ids });
+  }
+
+  /**
+   * Seed the cart and open the cart page
+   * @param items - Products to put in the cart
+   * @returns CartPage with the seeded items listed
+   * @example const cartPage = await cartSeeder.openCart(['backpack'])
+   */
+  async openCart(items: ProductKey[]): Promise<CartPage> {
+    await this.seed(items);
+    const cartPage = await new CartPage(this.page).goto();
+    await this.assertSeeded(items);
+    await cartPage.assertCartItemCount(items.length);
+    return cartPage;
+  }
+
+  /**
+   * Seed the cart and open checkout step one (customer information)
+   * @param items - Products to put in the cart
+   * @returns CheckoutPage ready for customer information
+   * @example const checkoutPage = await cartSeeder.openCheckout(['backpack'])
+   */
+  async openCheckout(items: ProductKey[]): Promise<CheckoutPage> {
+    await this.seed(items);
+    const checkoutPage = await new CheckoutPage(this.page).goto(Route.CheckoutInformation);
+    await this.assertSeeded(items);
+    return checkoutPage;
+  }
+
+  /**
+   * Seed the cart and open checkout step two (order overview) directly
+   * Skips the customer information form, for tests about the overview or the confirmation
+   * @param items - Products to put in the cart
+   * @returns CheckoutPage on the overview, ready to finish
+   * @example const checkoutPage = await cartSeeder.openOverview(['backpack'])
+   */
+  async openOverview(items: ProductKey[]): Promise<CheckoutPage> {
+    await this.seed(items);
+    const checkoutPage = await new CheckoutPage(this.page).goto(Route.CheckoutOverview);
+    await this.assertSeeded(items);
+    return checkoutPage;
+  }
+
+  /**
+   * Verify the cart badge on the current page matches the seeded products
+   * @param items - Products that were seeded
+   */
+  async assertSeeded(items: ProductKey[]): Promise<void> {
+    await new HeaderComponent(this.page).assertCartCount(items.length);
+  }
+}
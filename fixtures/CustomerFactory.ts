@@ -0,0 +1,96 @@
+import { SeededRandom } from '../utils/random';
+
+/**
+ * Customer data for the checkout information form
+ */
+export interface Customer {
+  firstName: string;
+  lastName: string;
+  postalCode: string;
+}
+
+/**
+ * Countries the factory can generate customers for
+ */
+export type Country = 'US' | 'GB' | 'CA' | 'DE' | 'JP' | 'BR' | 'IN';
+
+/**
+ * Name pools and postal code format per country
+ * In postal formats 9 is a random digit and A a random capital letter
+ */
+const locales: Record<Country, { firstNames: string[]; lastNames: string[]; postalFormats: string[] }> = {
+  US: { firstNames: ['James', 'Maria', 'Tyrone', 'Emily'], lastNames: ['Smith', 'Garcia', 'Johnson', 'Nguyen'], postalFormats: ['99999', '99999-9999'] },
+  GB: { firstNames: ['Oliver', 'Amelia', 'Harry', 'Isla'], lastNames: ['Taylor', 'Davies', "O'Brien", 'Evans'], postalFormats: ['A9 9AA', 'AA9 9AA', 'AA99 9AA'] },
+  CA: { firstNames: ['Liam', 'Chloé', 'Noah', 'Émilie'], lastNames: ['Tremblay', 'Roy', 'MacDonald', 'Gagnon'], postalFormats: ['A9A 9A9'] },
+  DE: { firstNames: ['Lukas', 'Jürgen', 'Sophie', 'Käthe'], lastNames: ['Müller', 'Schmidt', 'Weiß', 'Groß'], postalFormats: ['99999'] },
+  JP: { firstNames: ['Haruto', 'Yui', '翔太', '美咲'], lastNames: ['Sato', 'Suzuki', '高橋', '田中'], postalFormats: ['999-9999'] },
+  BR: { firstNames: ['João', 'Ana', 'Luís', 'Beatriz'], lastNames: ['Silva', 'Santos', 'Araújo', 'Conceição'], postalFormats: ['99999-999'] },
+  IN: { firstNames: ['Aarav', 'Priya', 'Rohan', 'Ananya'], lastNames: ['Sharma', 'Patel', 'Iyer', 'Reddy'], postalFormats: ['999999'] },
+};
+
+export const countries = Object.keys(locales) as Country[];
+
+/**
+ * Named sets of boundary inputs for form fields
+ */
+export const edgeCaseInputs = {
+  longStrings: ['A'.repeat(256), 'Wolfeschlegelsteinhausenbergerdorff'.repeat(30)],
+  unicode: ['Zoë Ångström', 'Łukasz Żółć', 'Ñandú Çelik', '山田 太郎'],
+  rtl: ['محمد الأحمد', 'שרה כהן', '\u202Eevil\u202C'],
+  emoji: ['😀', '🛒🛍️', '👩‍👩‍👧‍👦', 'Zoë 🇧🇷'],
+  whitespaceOnly: [' ', '   ', '\t', '\u00A0'],
+  injection: ["' OR '1'='1", '<script>alert(1)</script>', '<img src=x onerror=alert(1)>', '${7*7}{{7*7}}', '../../etc/passwd'],
+};
+
+export type EdgeCaseSet = keyof typeof edgeCaseInputs;
+
+/**
+ * CustomerFactory generates checkout customers from a seed
+ * The same seed produces the same customers in the same order, so a failing
+ * case is replayed by running with TEST_SEED=<seed> (see the customers fixture)
+ */
+export class CustomerFactory {
+  private readonly random: SeededRandom;
+
+  constructor(readonly seed: number) {
+    this.random = new SeededRandom(seed);
+  }
+
+  /**
+   * Generate a customer with a name and postal code typical for a country
+   * @param country - Country to generate for (random if omitted)
+   * @example const customer = customers.customer('GB') // e.g. Isla Davies, SW1 4XY
+   */
+  customer(country: Country = this.random.pick(countries)): Customer {
+    const locale = locales[country];
+    return {
+      firstName: this.random.pick(locale.firstNames),
+      lastName: this.random.pick(locale.lastNames),
+      postalCode: this.postalCode(this.random.pick(locale.postalFormats)),
+    };
+  }
+
+  /**
+   * Generate a customer whose fields all come from one edge-case set
+   * @param set - Name of the set in edgeCaseInputs
+   * @example const customer = customers.edgeCase('emoji')
+   */
+  edgeCase(set: EdgeCaseSet): Customer {
+    const values = edgeCaseInputs[set];
+    return {
+      firstName: this.random.pick(values),
+      lastName: this.random.pick(values),
+      postalCode: this.random.pick(values),
+    };
+  }
+
+  /**
+   * Fill a postal code format with random characters
+   * @param format - Format using 9 for digits and A for letters
+   */
+  private postalCode(format: string): string {
+    return format.replace(/[9A]/g, (slot) =>
+      slot === '9' ? String(this.random.int(0, 9)) : String.fromCharCode(this.random.int(65, 90))
+    );
+  }
+}
@@ -0,0 +1,117 @@
+import { BrowserContext, TestInfo, expect } from '@playwright/test';
+import { users } from './testData';
+
+/**
+ * Kind of problem the watchdog records
+ * - pageerror: uncaught exception in the page
+ * - console: console.error() or a browser error message
+ * - request: a request that failed or was answered with HTTP 400 or above
+ */
+export type ErrorKind = 'pageerror' | 'console' | 'request';
+
+/**
+ * One recorded problem
+ */
+export interface ErrorEntry {
+  kind: ErrorKind;
+  message: string;
+  /** Page, script or request URL the problem belongs to */
+  url: string;
+  /** When the problem was recorded, as Date.now() */
+  time: number;
+}
+
+/**
+ * An accepted problem
+ * `message` and `url` match as a substring or a pattern; omitted fields match anything
+ */
+export interface ErrorAllowance {
+  kind: ErrorKind;
+  /** Personas the entry applies to; omit for every persona */
+  personas?: (keyof typeof users)[];
+  message?: string | RegExp;
+  url?: string | RegExp;
+  reason: string;
+}
+
+// Requests the browser cancels itself, e.g. images still loading when the page navigates away
+const CANCELLED_REQUEST = /ERR_ABORTED|NS_BINDING_ABORTED|cancelled/i;
+
+/**
+ * ErrorWatchdog collects page errors, console errors and failed requests of a browser context
+ * Used by the auto fixture in fixtures.ts, which fails the test on anything not in
+ * fixtures/errorAllowlist.ts for its persona and attaches the log to the report
+ */
+export class ErrorWatchdog {
+  /** Everything recorded so far, in order */
+  readonly entries: ErrorEntry[] = [];
+
+  constructor(context: BrowserContext) {
+    context.on('weberror', (webError) => {
+      this.entries.push({ kind: 'pageerror', message: webError.error().message, url: webError.page()?.url() ?? '', time: Date.now() });
+    });
+    context.on('console', (message) => {
+      if (message.type() === 'error') {
+        this.entries.push({ kind: 'console', message: message.text(), url: message.location().url, time: Date.now() });
+      }
+    });
+    context.on('requestfailed', (request) => {
+      const errorText = request.failure()?.errorText ?? 'failed';
+      if (!CANCELLED_REQUEST.test(errorText)) {
+        this.entries.push({
+          kind: 'request',
+          message: `${request.method()} ${request.url()} failed: ${errorText}`,
+          url: request.url(),
+          time: Date.now(),
+        });
+      }
+    });
+    context.on('response', (response) => {
+      if (response.status() >= 400) {
+        const request = response.request();
+        this.entries.push({
+          kind: 'request',
+          message: `${request.method()} ${request.url()} answered HTTP ${response.status()}`,
+          url: request.url(),
+          time: Date.now(),
+        });
+      }
+    });
+  }
+
+  /**
+   * Find the allowance covering an entry
+   * @param entry - The recorded problem
+   * @param allowlist - Accepted problems, already narrowed to the persona
+   */
+  static findAllowance(entry: ErrorEntry, allowlist: ErrorAllowance[]): ErrorAllowance | undefined {
+    const matches = (text: string, pattern?: string | RegExp) =>
+      pattern === undefined || (typeof pattern === 'string' ? text.includes(pattern) : pattern.test(text));
+    return allowlist.find((allowance) =>
+      allowance.kind === entry.kind && matches(entry.message, allowance.message) && matches(entry.url, allowance.url)
+    );
+  }
+
+  /**
+   * Fail on every entry that is neither allowlisted nor caused on purpose, and attach the log
+   * @param testInfo - The running test
+   * @param allowlist - Accepted problems, already narrowed to the persona
+   * @param injected - Whether a network fault injected by the test explains the entry
+   */
+  async check(testInfo: TestInfo, allowlist: ErrorAllowance[], injected: (entry: ErrorEntry) => boolean): Promise<void> {
+    if (this.entries.length === 0) return;
+
+    const lines = this.entries.map((entry) => {
+      const allowance = ErrorWatchdog.findAllowance(entry, allowlist);
+      const verdict = allowance ? `allowed: ${allowance.reason}` : injected(entry) ? 'injected fault' : 'UNEXPECTED';
+      // Request messages already name their URL
+      const where = entry.kind !== 'request' && entry.url ? ` (${entry.url})` : '';
+      return { entry, verdict, line: `[${entry.kind}] ${entry.message}${where}\n    -> ${verdict}` };
+    });
+    const log = lines.map(({ line }) => line).join('\n');
+    await testInfo.attach('error-log', { body: log, contentType: 'text/plain' });
+
+    const unexpected = lines.filter(({ verdict }) => verdict === 'UNEXPECTED').map(({ entry }) => entry);
+    expect(unexpected, `Page errors, console errors or failed requests not in the allowlist:\n${log}`).toEqual([]);
+  }
+}
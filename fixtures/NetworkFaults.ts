@@ -0,0 +1,172 @@
+import { BrowserContext, Route, TestInfo } from '@playwright/test';
+
+/**
+ * Error codes accepted by route.abort(), as the browser would report a dropped request
+ */
+export type NetworkError =
+  | 'aborted' | 'accessdenied' | 'addressunreachable' | 'blockedbyclient' | 'blockedbyresponse'
+  | 'connectionaborted' | 'connectionclosed' | 'connectionfailed' | 'connectionrefused'
+  | 'connectionreset' | 'internetdisconnected' | 'namenotresolved' | 'timedout' | 'failed';
+
+/**
+ * URL glob, regular expression or predicate, as accepted by context.route()
+ */
+export type UrlPattern = string | RegExp | ((url: URL) => boolean);
+
+/**
+ * One fault applied to requests matching `url`
+ * - delay: hold the request for `ms` milliseconds, then let it through
+ * - fail: answer with an HTTP error status (default 500) instead of the real response
+ * - drop: abort the request as a network error (default 'connectionreset')
+ * `times` limits the fault to the first N matching requests
+ */
+export type FaultRule = { url: UrlPattern; times?: number } & (
+  | { action: 'delay'; ms: number }
+  | { action: 'fail'; status?: number }
+  | { action: 'drop'; error?: NetworkError }
+);
+
+/**
+ * A request a fault was applied to
+ */
+export interface FaultHit {
+  action: FaultRule['action'] | 'offline';
+  url: string;
+}
+
+/**
+ * A time span the context was offline, as Date.now() values; `to` is unset while still offline
+ */
+interface OfflinePeriod {
+  from: number;
+  to?: number;
+}
+
+/**
+ * NetworkFaults injects network problems into a browser context through request routing
+ * Faults apply to every page of the context and take precedence over earlier routes
+ * (including HAR replay), which still serve delayed requests
+ * @example
+ * await faults.fail(/\/static\/media\//, 404);
+ * await faults.delay(/\.js$/, 2000);
+ * await faults.offline();
+ */
+export class NetworkFaults {
+  /** Requests affected so far, in order */
+  readonly hits: FaultHit[] = [];
+
+  private readonly offlinePeriods: OfflinePeriod[] = [];
+
+  constructor(private readonly context: BrowserContext) {}
+
+  /**
+   * Apply a fault rule
+   * @param rule - What to do with which requests
+   * @example await faults.add({ url: /\.jpg$/, action: 'drop', times: 1 })
+   */
+  async add(rule: FaultRule): Promise<void> {
+    await this.context.route(rule.url, async (route) => {
+      this.hits.push({ action: rule.action, url: route.request().url() });
+      await this.handle(route, rule);
+    }, { times: rule.times });
+  }
+
+  /**
+   * Hold matching requests before letting them through
+   * @param url - Requests to delay
+   * @param ms - Delay in milliseconds
+   * @param times - Only delay the first N matching requests
+   * @example await faults.delay(/\.js$/, 2000)
+   */
+  async delay(url: UrlPattern, ms: number, times?: number): Promise<void> {
+    await this.add({ url, action: 'delay', ms, times });
+  }
+
+  /**
+   * Answer matching requests with an HTTP error
+   * @param url - Requests to fail
+   * @param status - HTTP status code
+   * @param times - Only fail the first N matching requests
+   * @example await faults.fail(/\/static\/media\//, 404)
+   */
+  async fail(url: UrlPattern, status: number = 500, times?: number): Promise<void> {
+    await this.add({ url, action: 'fail', status, times });
+  }
+
+  /**
+   * Abort matching requests with a network error
+   * @param url - Requests to drop
+   * @param error - Error the browser reports
+   * @param times - Only drop the first N matching requests
+   * @example await faults.drop(/checkout-step-two/, 'connectionreset', 1)
+   */
+  async drop(url: UrlPattern, error: NetworkError = 'connectionreset', times?: number): Promise<void> {
+    await this.add({ url, action: 'drop', error, times });
+  }
+
+  /**
+   * Take the whole context offline, or bring it back online
+   * @param offline - False to restore the connection
+   * @example await faults.offline(); ...; await faults.offline(false)
+   */
+  async offline(offline: boolean = true): Promise<void> {
+    const current = this.offlinePeriods.find((period) => period.to === undefined);
+    if (offline && !current) {
+      // Opened before going offline so nothing the switch causes falls outside the period
+      this.offlinePeriods.push({ from: Date.now() });
+      this.hits.push({ action: 'offline', url: '*' });
+    }
+    await this.context.setOffline(offline);
+    if (!offline && current) {
+      // Closed once the connection is back, after errors from the offline time were reported
+      current.to = Date.now();
+    }
+  }
+
+  /**
+   * Whether an injected fault explains a failed request or resource error for a URL
+   * True for URLs a fault failed or dropped, and for every URL while the context was offline
+   * @param url - URL of the failed request
+   * @param time - When the error was recorded, as Date.now()
+   */
+  explains(url: string, time: number): boolean {
+    const offline = this.offlinePeriods.some((period) =>
+      period.from <= time && (period.to === undefined || time <= period.to));
+    return offline || this.hits.some((hit) => (hit.action === 'fail' || hit.action === 'drop') && hit.url === url);
+  }
+
+  /**
+   * Attach the affected requests to the test report
+   * @param testInfo - The running test
+   */
+  async attachTo(testInfo: TestInfo): Promise<void> {
+    if (this.hits.length === 0) return;
+    const body = this.hits.map((hit) => `${hit.action.padEnd(7)} ${hit.url}`).join('\n');
+    await testInfo.attach('network-faults', { body, contentType: 'text/plain' });
+  }
+
+  /**
+   * Apply one rule to an intercepted request
+   * @param route - The intercepted request
+   * @param rule - The matching rule
+   */
+  private async handle(route: Route, rule: FaultRule): Promise<void> {
+    switch (rule.action) {
+      case 'delay':
+        await new Promise((resolve) => setTimeout(resolve, rule.ms));
+        // The page may have been closed while the request was held
+        await route.fallback().catch(() => undefined);
+        break;
+      case 'fail':
+        await route.fulfill({
+          status: rule.status ?? 500,
+          contentType: 'text/plain',
+          body: `Injected fault: HTTP ${rule.status ?? 500}`,
+        });
+        break;
+      case 'drop':
+        await route.abort(rule.error ?? 'connectionreset');
+        break;
+    }
+  }
+}
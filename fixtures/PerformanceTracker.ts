@@ -0,0 +1,181 @@
+import { Page, TestInfo, expect } from '@playwright/test';
+import * as fs from 'fs';
+import * as path from 'path';
+import { users } from './testData';
+
+/**
+ * Default location of the budget file; PERF_BUDGETS overrides it
+ */
+const DEFAULT_BUDGET_FILE = path.join(__dirname, 'performanceBudgets.json');
+
+/**
+ * Name of the attachment read by reporters/timingReporter.ts
+ */
+export const TIMINGS_ATTACHMENT = 'performance-timings';
+
+/**
+ * Key user transitions that are timed
+ */
+export type TransitionName =
+  | 'loginToInventory'
+  | 'inventoryToCart'
+  | 'cartToCheckoutInformation'
+  | 'checkoutInformationToOverview'
+  | 'overviewToComplete';
+
+/**
+ * Limits for one persona; transitions in milliseconds, LCP in milliseconds, CLS unitless
+ */
+export interface PerformanceBudget {
+  transitions: Partial<Record<TransitionName, number>>;
+  webVitals: {
+    lcp?: number;
+    cls?: number;
+  };
+}
+
+/**
+ * Duration of one timed transition
+ */
+export interface TransitionTiming {
+  name: TransitionName;
+  durationMs: number;
+  budgetMs?: number;
+}
+
+/**
+ * Browser-side metrics for the current page load
+ * Values are null when the browser does not report them (LCP and CLS are Chromium only)
+ */
+export interface PageMetrics {
+  page: string;
+  lcp: number | null;
+  cls: number | null;
+  domContentLoaded: number | null;
+  load: number | null;
+}
+
+/**
+ * Load the budget for a persona: the file's "default" section overlaid with the persona's section
+ * @param persona - Key of the persona in testData users, null for logged-out tests
+ * @param budgetFile - Path of the JSON budget file
+ * @returns The merged budget
+ */
+export function loadBudget(
+  persona: keyof typeof users | null,
+  budgetFile: string = process.env.PERF_BUDGETS || DEFAULT_BUDGET_FILE
+): PerformanceBudget {
+  const file = JSON.parse(fs.readFileSync(budgetFile, 'utf-8')) as Record<string, Partial<PerformanceBudget>>;
+  const base = file.default || {};
+  const override = (persona && file[persona]) || {};
+  return {
+    transitions: { ...base.transitions, ...override.transitions },
+    webVitals: { ...base.webVitals, ...override.webVitals },
+  };
+}
+
+/**
+ * PerformanceTracker times key transitions and captures web vitals during a test
+ * Results are checked against the persona's budget and attached to the test report
+ */
+export class PerformanceTracker {
+  readonly timings: TransitionTiming[] = [];
+  readonly pageMetrics: PageMetrics[] = [];
+
+  constructor(
+    private readonly page: Page,
+    readonly budget: PerformanceBudget
+  ) {}
+
+  /**
+   * Time a transition from starting an action until the target page is ready
+   * @param name - The transition being timed
+   * @param action - The user action that starts the transition
+   * @param ready - Resolves once the destination is usable
+   * @example await perf.measure('inventoryToCart', () => inventoryPage.goToCart(), () => cartPage.checkoutButton.waitFor())
+   */
+  async measure(name: TransitionName, action: () => Promise<void>, ready: () => Promise<void>): Promise<number> {
+    const start = Date.now();
+    await action();
+    await ready();
+    const durationMs = Date.now() - start;
+    this.timings.push({ name, durationMs, budgetMs: this.budget.transitions[name] });
+    return durationMs;
+  }
+
+  /**
+   * Capture LCP, CLS and navigation timing for the current page load
+   * @param label - Name to report the metrics under (e.g. 'inventory')
+   */
+  async captureWebVitals(label: string): Promise<PageMetrics> {
+    const metrics = await this.page.evaluate(() => new Promise<Omit<PageMetrics, 'page'>>((resolve) => {
+      const supported = PerformanceObserver.supportedEntryTypes || [];
+      let lcp: number | null = null;
+      let cls: number | null = supported.includes('layout-shift') ? 0 : null;
+
+      if (supported.includes('largest-contentful-paint')) {
+        new PerformanceObserver((list) => {
+          const entries = list.getEntries();
+          lcp = entries[entries.length - 1].startTime;
+        }).observe({ type: 'largest-contentful-paint', buffered: true });
+      }
+      if (supported.includes('layout-shift')) {
+        new PerformanceObserver((list) => {
+          for (const entry of list.getEntries() as (PerformanceEntry & { value: number; hadRecentInput: boolean })[]) {
+            if (!entry.hadRecentInput) cls = (cls || 0) + entry.value;
+          }
+        }).observe({ type: 'layout-shift', buffered: true });
+      }
+
+      // Buffered entries are delivered asynchronously
+      setTimeout(() => {
+        const navigation = performance.getEntriesByType('navigation')[0] as PerformanceNavigationTiming | undefined;
+        resolve({
+          lcp,
+          cls,
+          domContentLoaded: navigation ? navigation.domContentLoadedEventEnd : null,
+          load: navigation && navigation.loadEventEnd > 0 ? navigation.loadEventEnd : null,
+        });
+      }, 100);
+    }));
+
+    const pageMetrics = { page: label, ...metrics };
+    this.pageMetrics.push(pageMetrics);
+    return pageMetrics;
+  }
+
+  /**
+   * Verify every recorded timing and metric is within budget
+   * Fails with one line per exceeded budget
+   */
+  async assertWithinBudget(): Promise<void> {
+    const violations: string[] = [];
+    for (const timing of this.timings) {
+      if (timing.budgetMs !== undefined && timing.durationMs > timing.budgetMs) {
+        violations.push(`${timing.name}: ${timing.durationMs}ms exceeds budget of ${timing.budgetMs}ms`);
+      }
+    }
+    const { lcp, cls } = this.budget.webVitals;
+    for (const metrics of this.pageMetrics) {
+      if (lcp !== undefined && metrics.lcp !== null && metrics.lcp > lcp) {
+        violations.push(`${metrics.page} LCP: ${Math.round(metrics.lcp)}ms exceeds budget of ${lcp}ms`);
+      }
+      if (cls !== undefined && metrics.cls !== null && metrics.cls > cls) {
+        violations.push(`${metrics.page} CLS: ${metrics.cls.toFixed(3)} exceeds budget of ${cls}`);
+      }
+    }
+    expect(violations, `Performance budget exceeded:\n${violations.join('\n')}`).toEqual([]);
+  }
+
+  /**
+   * Attach the recorded timings and metrics to the test report
+   * @param testInfo - The running test's info
+   */
+  async attachTo(testInfo: TestInfo): Promise<void> {
+    if (this.timings.length === 0 && this.pageMetrics.length === 0) return;
+    await testInfo.attach(TIMINGS_ATTACHMENT, {
+      body: JSON.stringify({ timings: this.timings, pageMetrics: this.pageMetrics }, null, 2),
+      contentType: 'application/json',
+    });
+  }
+}
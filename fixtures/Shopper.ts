@@ -0,0 +1,109 @@
+import { Page } from '@playwright/test';
+import { Route } from '../pages/BasePage';
+import { LoginPage } from '../pages/LoginPage';
+import { InventoryPage } from '../pages/InventoryPage';
+import { OrderSummary } from '../pages/CheckoutPage';
+import { LineItem } from '../pages/components/CartListComponent';
+import { Customer } from './CustomerFactory';
+import { users } from './testData';
+import { Chain, chain } from '../utils/chain';
+
+/**
+ * What an order looked like, read from the overview and confirmation pages
+ */
+export interface OrderReceipt {
+  customer: Customer;
+  /** Rows of the order overview */
+  items: LineItem[];
+  /** Item total, tax and total as shown on the overview */
+  summary: OrderSummary;
+  payment: string;
+  shipping: string;
+  confirmation: {
+    header: string;
+    message: string;
+  };
+}
+
+/**
+ * Shopper runs whole user journeys on top of the page objects
+ * Journeys go through the UI like a user would and return what the site showed,
+ * so specs can assert on the outcome instead of repeating every step
+ * @example
+ * const receipt = await shopper.purchase('standard', [products.backpack], customerInfo.valid);
+ * expect(receipt.summary.itemTotal).toBe(29.99);
+ */
+export class Shopper {
+  constructor(private readonly page: Page) {}
+
+  /**
+   * Start a fresh session as a persona through the login form
+   * Clears cookies and the stored cart first, so the persona starts with an empty cart
+   * @param persona - Key of the persona in testData users
+   * @returns Chain continuing on the inventory page
+   * @throws Error if the site does not accept the persona (e.g. 'locked')
+   * @example await shopper.loginAs('problem').addItems([products.backpack])
+   */
+  loginAs(persona: keyof typeof users): Chain<InventoryPage> {
+    return chain(async () => {
+      await this.page.context().clearCookies();
+      const loginPage = await new LoginPage(this.page).goto();
+      await this.page.evaluate(() => localStorage.clear());
+
+      await loginPage.login(users[persona].username, users[persona].password);
+      // Either we land on the inventory or the login form shows an error; slow personas
+      // may take longer than the expect timeout used by at()
+      await Promise.race([
+        this.page.waitForURL((url) => url.pathname === Route.Inventory),
+        loginPage.errorMessage.waitFor(),
+      ]);
+      return loginPage.at(InventoryPage);
+    });
+  }
+
+  /**
+   * Buy products in the current session and read the receipt
+   * Products already in the cart are part of the order too
+   * @param itemNames - Names of the products to add from the inventory
+   * @param customer - Customer entered on the information step
+   * @returns The order as the overview and confirmation pages showed it
+   * @example const receipt = await shopper.buy([products.onesie], customerInfo.valid)
+   */
+  async buy(itemNames: string[], customer: Customer): Promise<OrderReceipt> {
+    const overview = await chain(() => new InventoryPage(this.page).goto())
+      .addItems(itemNames)
+      .openCart()
+      .checkout()
+      .fillInfo(customer);
+
+    const receipt = {
+      customer,
+      items: await overview.getOverviewItems(),
+      summary: await overview.getOrderSummary(),
+      payment: await overview.getPaymentInfo(),
+      shipping: await overview.getShippingInfo(),
+    };
+
+    const complete = await overview.finish();
+    return {
+      ...receipt,
+      confirmation: {
+        header: (await complete.getConfirmationHeader()).trim(),
+        message: (await complete.getConfirmationMessage()).trim(),
+      },
+    };
+  }
+
+  /**
+   * Log in as a persona, buy products and read the receipt
+   * @param persona - Key of the persona in testData users
+   * @param itemNames - Names of the products to buy
+   * @param customer - Customer entered on the information step
+   * @returns The order as the overview and confirmation pages showed it
+   * @example const receipt = await shopper.purchase('standard', [products.backpack], customerInfo.valid)
+   */
+  async purchase(persona: keyof typeof users, itemNames: string[], customer: Customer): Promise<OrderReceipt> {
+    await this.loginAs(persona);
+    return this.buy(itemNames, customer);
+  }
+}
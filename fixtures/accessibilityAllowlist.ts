@@ -0,0 +1,30 @@
+import { AccessibilityAllowance } from '../utils/accessibility';
+
+/**
+ * Accessibility allowlist
+ * Known issues of saucedemo.com that BasePage.assertAccessible() reports but does not fail on.
+ * Each entry names the rule and the element as it appears in the audit summary; remove an
+ * entry once the site fixes it. Tests can pass extra entries to assertAccessible().
+ */
+export const accessibilityAllowlist: AccessibilityAllowance[] = [
+  {
+    rule: 'input-label',
+    target: /^input#(user-name|password)$/,
+    reason: 'Login fields are identified by placeholder only',
+  },
+  {
+    rule: 'input-label',
+    target: /^input#(first-name|last-name|postal-code)$/,
+    reason: 'Checkout information fields are identified by placeholder only',
+  },
+  {
+    rule: 'input-label',
+    target: 'select.product_sort_container',
+    reason: 'Sort dropdown has no label',
+  },
+  {
+    rule: 'button-name',
+    target: 'button.error-button',
+    reason: 'Error dismiss button only contains an icon',
+  },
+];
@@ -0,0 +1,84 @@
+import { Browser } from '@playwright/test';
+import * as fs from 'fs';
+import * as path from 'path';
+import { LoginPage } from '../pages/LoginPage';
+import { users } from './testData';
+import { HarMode, useArchive } from './har';
+
+/**
+ * Location of the storage state files written by global-setup.ts
+ * One file per persona, e.g. playwright/.auth/standard.json
+ */
+export const AUTH_DIR = path.join(__dirname, '..', 'playwright', '.auth');
+
+/**
+ * Cookie holding the logged-in username; saucedemo.com (and the stand-in) expire it after 10 minutes
+ */
+const SESSION_COOKIE = 'session-username';
+
+/**
+ * Get the storage state file for a persona
+ * @param persona - Key of the persona in testData users
+ * @returns Absolute path of the persona's storage state file
+ * @example authStatePath('problem')
+ */
+export function authStatePath(persona: keyof typeof users): string {
+  return path.join(AUTH_DIR, `${persona}.json`);
+}
+
+/**
+ * Log a persona in through the login form and save its storage state
+ * The state is written to a temporary file and renamed, so parallel workers never read half a file.
+ * A persona the site rejects (locked, invalid) gets no state file
+ * @param browser - Browser to open the login context in
+ * @param baseURL - Base URL of the site
+ * @param harMode - Record the login into, or replay it from, har/global-setup.har
+ * @param persona - Key of the persona in testData users
+ * @returns Whether the persona was logged in
+ */
+export async function saveSession(
+  browser: Browser,
+  baseURL: string | undefined,
+  harMode: HarMode,
+  persona: keyof typeof users
+): Promise<boolean> {
+  const statePath = authStatePath(persona);
+  const context = await browser.newContext({ baseURL });
+  const har = await useArchive(context, harMode, 'global-setup', persona);
+  const loginPage = new LoginPage(await context.newPage());
+
+  await loginPage.navigate();
+  await loginPage.login(users[persona].username, users[persona].password);
+
+  // Either we land on the inventory or the login form shows an error
+  const outcome = await Promise.race([
+    loginPage.waitForUrl(/inventory/).then(() => 'loggedIn'),
+    loginPage.errorMessage.waitFor().then(() => 'rejected'),
+  ]);
+
+  if (outcome === 'loggedIn') {
+    fs.mkdirSync(AUTH_DIR, { recursive: true });
+    const partial = `${statePath}.${process.pid}.tmp`;
+    await context.storageState({ path: partial });
+    fs.renameSync(partial, statePath);
+  } else {
+    fs.rmSync(statePath, { force: true });
+  }
+  await context.close();
+  har.assertAllRecorded();
+  return outcome === 'loggedIn';
+}
+
+/**
+ * Whether a saved session cookie expires within the given time
+ * @param statePath - Storage state file written by saveSession()
+ * @param withinMs - Time the session must still be valid for, e.g. the test timeout
+ * @returns True when the cookie is missing or expires too soon; session cookies never expire
+ */
+export function sessionExpiresWithin(statePath: string, withinMs: number): boolean {
+  const state = JSON.parse(fs.readFileSync(statePath, 'utf-8')) as { cookies: { name: string; expires: number }[] };
+  const cookie = state.cookies.find((item) => item.name === SESSION_COOKIE);
+  if (!cookie) return true;
+  // expires is in seconds since the epoch, -1 for a session cookie
+  return cookie.expires !== -1 && cookie.expires * 1000 < Date.now() + withinMs;
+}
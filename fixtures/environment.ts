@@ -0,0 +1,177 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Environment profiles
+ * TEST_ENV selects the target: local (bundled stand-in), staging or production (default).
+ * A profile defines the base URL, the persona accounts and the timeouts. Passwords are never
+ * kept in the repository: they are read from environment variables, falling back to the
+ * git-ignored files .env.<profile> and .env in the repository root (see .env.example).
+ * Only the local profile has a default: the password hard-coded in the bundled stand-in.
+ * A missing value stops the run at startup with the names of the variables to set.
+ */
+
+const ROOT_DIR = path.join(__dirname, '..');
+
+// Password the bundled stand-in accepts (PASSWORD in server/public/app.js)
+const STAND_IN_PASSWORD = 'secret_sauce';
+
+export type EnvironmentName = 'local' | 'staging' | 'production';
+
+/**
+ * Personas with an account on the site
+ */
+export const accountPersonas = ['standard', 'locked', 'problem', 'performance', 'error', 'visual'] as const;
+export type AccountPersona = typeof accountPersonas[number];
+
+/**
+ * Username and password of one account
+ */
+export interface Credentials {
+  username: string;
+  password: string;
+}
+
+/**
+ * Timeouts in milliseconds
+ */
+export interface Timeouts {
+  test: number;
+  expect: number;
+  action: number;
+  navigation: number;
+}
+
+/**
+ * Definition of one environment; secrets are referenced by variable name
+ */
+interface EnvironmentProfile {
+  /** Base URL, or undefined when it must come from BASE_URL */
+  baseURL?: string;
+  /** Start the stand-in in ./server through Playwright's webServer */
+  startLocalServer: boolean;
+  timeouts: Timeouts;
+  /** Username, password variable and optional default password of each persona */
+  accounts: Record<AccountPersona, { username: string; passwordVar: string; defaultPassword?: string }>;
+}
+
+/**
+ * Resolved environment with secrets filled in
+ */
+export interface Environment {
+  name: EnvironmentName;
+  baseURL: string;
+  startLocalServer: boolean;
+  timeouts: Timeouts;
+  credentials: Record<AccountPersona, Credentials>;
+}
+
+/**
+ * The SauceDemo persona accounts, all sharing one password variable
+ * @param passwordVar - Name of the variable holding the password
+ * @param defaultPassword - Password used when the variable is not set; omit to require it
+ */
+function sauceDemoAccounts(passwordVar: string, defaultPassword?: string): EnvironmentProfile['accounts'] {
+  return {
+    standard: { username: 'standard_user', passwordVar, defaultPassword },
+    locked: { username: 'locked_out_user', passwordVar, defaultPassword },
+    problem: { username: 'problem_user', passwordVar, defaultPassword },
+    performance: { username: 'performance_glitch_user', passwordVar, defaultPassword },
+    error: { username: 'error_user', passwordVar, defaultPassword },
+    visual: { username: 'visual_user', passwordVar, defaultPassword },
+  };
+}
+
+const profiles: Record<EnvironmentName, EnvironmentProfile> = {
+  local: {
+    baseURL: `http://localhost:${process.env.PORT || 3000}/`,
+    startLocalServer: true,
+    timeouts: { test: 20000, expect: 5000, action: 5000, navigation: 10000 },
+    accounts: sauceDemoAccounts('SAUCE_PASSWORD', STAND_IN_PASSWORD),
+  },
+  staging: {
+    // No public staging site: BASE_URL is required
+    baseURL: undefined,
+    startLocalServer: false,
+    timeouts: { test: 60000, expect: 10000, action: 15000, navigation: 45000 },
+    accounts: sauceDemoAccounts('SAUCE_PASSWORD'),
+  },
+  production: {
+    baseURL: 'https://www.saucedemo.com/',
+    startLocalServer: false,
+    timeouts: { test: 30000, expect: 5000, action: 10000, navigation: 30000 },
+    accounts: sauceDemoAccounts('SAUCE_PASSWORD'),
+  },
+};
+
+/**
+ * Read KEY=VALUE lines from an env file; blank lines and # comments are skipped
+ * @param fileName - File name relative to the repository root
+ * @returns The variables, or an empty object if the file does not exist
+ */
+function readEnvFile(fileName: string): Record<string, string> {
+  const filePath = path.join(ROOT_DIR, fileName);
+  if (!fs.existsSync(filePath)) return {};
+
+  const vars: Record<string, string> = {};
+  for (const line of fs.readFileSync(filePath, 'utf-8').split(/\r?\n/)) {
+    const match = line.match(/^\s*([A-Za-z_][A-Za-z0-9_]*)\s*=\s*(.*?)\s*$/);
+    if (match) {
+      vars[match[1]] = match[2].replace(/^(['"])(.*)\1$/, '$2');
+    }
+  }
+  return vars;
+}
+
+/**
+ * Resolve a profile, filling in the base URL and passwords
+ * @param name - Profile name (defaults to TEST_ENV, then 'production')
+ * @returns The resolved environment
+ * @throws Error naming the unknown profile or every missing variable
+ */
+export function loadEnvironment(name: string = process.env.TEST_ENV || 'production'): Environment {
+  if (!(name in profiles)) {
+    throw new Error(`Unknown TEST_ENV "${name}". Expected one of: ${Object.keys(profiles).join(', ')}`);
+  }
+  const profileName = name as EnvironmentName;
+  const profile = profiles[profileName];
+
+  // Shell variables win over .env.<profile>, which wins over .env
+  const vars: Record<string, string | undefined> = {
+    ...readEnvFile('.env'),
+    ...readEnvFile(`.env.${profileName}`),
+    ...process.env,
+  };
+
+  const missing = new Set<string>();
+  const baseURL = vars.BASE_URL || profile.baseURL;
+  if (!baseURL) missing.add('BASE_URL');
+
+  const credentials = {} as Record<AccountPersona, Credentials>;
+  for (const persona of accountPersonas) {
+    const { username, passwordVar, defaultPassword } = profile.accounts[persona];
+    const password = vars[passwordVar] || defaultPassword;
+    if (!password) missing.add(passwordVar);
+    credentials[persona] = { username, password: password || '' };
+  }
+
+  if (missing.size > 0) {
+    throw new Error(
+      `Environment "${profileName}" is missing required values: ${[...missing].join(', ')}. ` +
+      `Set them as environment variables or in .env.${profileName} (see .env.example).`
+    );
+  }
+
+  return {
+    name: profileName,
+    baseURL: baseURL as string,
+    startLocalServer: profile.startLocalServer,
+    timeouts: profile.timeouts,
+    credentials,
+  };
+}
+
+/**
+ * The environment selected for this run
+ */
+export const environment = loadEnvironment();
@@ -0,0 +1,31 @@
+import { ErrorAllowance } from './ErrorWatchdog';
+import { users } from './testData';
+
+/**
+ * Error allowlist
+ * Page errors, console errors and failed requests the error watchdog (see fixtures.ts) logs
+ * without failing the test. Entries describe errors that occur on the default target, saucedemo.com;
+ * the stand-in in server/ raises none of them. Entries without `personas` apply to every persona.
+ * Keep this list short: deliberate persona defects that break a test belong in knownDefects.ts instead.
+ */
+export const errorAllowlist: ErrorAllowance[] = [
+  {
+    kind: 'request',
+    url: /\.backtrace\.io\//,
+    reason: 'The error reporter of saucedemo.com posts to Backtrace with placeholder credentials and gets HTTP 401',
+  },
+  {
+    kind: 'console',
+    url: /\.backtrace\.io\//,
+    reason: 'The error reporter of saucedemo.com posts to Backtrace with placeholder credentials and gets HTTP 401',
+  },
+];
+
+/**
+ * Get the allowlist entries that apply to a persona
+ * @param persona - The persona the test runs as, null for logged-out tests
+ * @returns Entries for every persona plus those naming this persona
+ */
+export function errorAllowancesFor(persona: keyof typeof users | null): ErrorAllowance[] {
+  return errorAllowlist.filter((allowance) => !allowance.personas || (!!persona && allowance.personas.includes(persona)));
+}
@@ -0,0 +1,224 @@
+import { test as base } from '@playwright/test';
+import * as fs from 'fs';
+import * as path from 'path';
+import { LoginPage } from '../pages/LoginPage';
+import { InventoryPage } from '../pages/InventoryPage';
+import { InventoryItemPage } from '../pages/InventoryItemPage';
+import { CartPage } from '../pages/CartPage';
+import { CheckoutPage } from '../pages/CheckoutPage';
+import { CartSeeder } from './CartSeeder';
+import { Shopper } from './Shopper';
+import { FaultRule, NetworkFaults } from './NetworkFaults';
+import { ErrorWatchdog } from './ErrorWatchdog';
+import { errorAllowancesFor } from './errorAllowlist';
+import { PerformanceTracker, loadBudget } from './PerformanceTracker';
+import { CustomerFactory } from './CustomerFactory';
+import { resolveSeed } from '../utils/random';
+import { findKnownDefects } from './knownDefects';
+import { expect } from './matchers';
+import { users } from './testData';
+import { authStatePath, saveSession, sessionExpiresWithin } from './authState';
+import { HarOptions, useArchive } from './har';
+
+/**
+ * Custom Playwright fixtures for SauceDemo
+ * Injects page objects into tests and optionally starts the test as a logged-in persona
+ */
+
+/**
+ * Name of a persona defined in testData users (e.g. 'standard', 'problem')
+ */
+export type PersonaName = keyof typeof users;
+
+/**
+ * Page objects and helpers available to every test
+ */
+type PageFixtures = {
+  loginPage: LoginPage;
+  inventoryPage: InventoryPage;
+  inventoryItemPage: InventoryItemPage;
+  cartPage: CartPage;
+  checkoutPage: CheckoutPage;
+  cartSeeder: CartSeeder;
+  shopper: Shopper;
+  customers: CustomerFactory;
+};
+
+/**
+ * Timing and web vitals recorder checked against the persona's budget
+ */
+type PerformanceFixtures = {
+  perf: PerformanceTracker;
+};
+
+/**
+ * Network fault injection for resilience tests
+ */
+type NetworkFixtures = {
+  faults: NetworkFaults;
+};
+
+/**
+ * Fixtures that run for every test without being requested
+ */
+type AutoFixtures = {
+  knownDefects: void;
+  errorWatchdog: ErrorWatchdog;
+};
+
+/**
+ * Options configurable through test.use() or a project's `use` block
+ * `persona: null` means logged out. Playwright treats an `undefined` option as unset and falls
+ * back to the project's or config's value, so `undefined` cannot opt out of the default persona
+ */
+export type PersonaOptions = {
+  persona: PersonaName | null;
+};
+
+/**
+ * Faults in place before the test's first navigation
+ * @example test.use({ networkFaults: [{ url: /\/static\/media\//, action: 'fail', status: 404 }] })
+ */
+export type NetworkOptions = {
+  networkFaults: FaultRule[];
+};
+
+/**
+ * Extended test object
+ * When `persona` is set the context is loaded with the persona's storage state saved by
+ * global-setup.ts, so the page opens on the inventory without touching the login form.
+ * playwright.config.ts sets the persona per project ('standard' unless running the persona matrix),
+ * so every test starts logged in on the inventory page unless its describe sets `persona: null`
+ * @example
+ * test.use({ persona: null }); // start logged out, on a blank page
+ * test('Add item', async ({ inventoryPage }) => { ... });
+ */
+export const test = base.extend<
+  PageFixtures & PerformanceFixtures & NetworkFixtures & AutoFixtures & PersonaOptions & NetworkOptions & HarOptions
+>({
+  // Projects choose the persona; null starts logged out
+  persona: [null, { option: true }],
+
+  // playwright.config.ts sets it from HAR_MODE
+  harMode: ['off', { option: true }],
+
+  // Resilience tests set faults with test.use(), or add them through `faults` during the test
+  networkFaults: [[], { option: true }],
+
+  // Marks tests broken by a registered persona defect as expected failures
+  knownDefects: [async ({ persona }, use, testInfo) => {
+    const defects = persona ? findKnownDefects(persona, testInfo) : [];
+    for (const defect of defects) {
+      testInfo.annotations.push({ type: 'known-defect', description: defect.description });
+    }
+    testInfo.fail(defects.length > 0, 'Known persona defect');
+
+    await use();
+
+    if (defects.length > 0 && testInfo.status === 'passed') {
+      testInfo.annotations.push({
+        type: 'defect fixed?',
+        description: `Registered defect did not reproduce: ${defects.map((defect) => defect.description).join('; ')}`,
+      });
+    }
+  }, { auto: true }],
+
+  // Fails the test on page errors, console errors and failed requests not allowlisted for the
+  // persona (fixtures/errorAllowlist.ts); failures caused by injected network faults are only logged
+  errorWatchdog: [async ({ context, persona, faults }, use, testInfo) => {
+    const watchdog = new ErrorWatchdog(context);
+    await use(watchdog);
+    await watchdog.check(testInfo, errorAllowancesFor(persona),
+      (entry) => entry.kind !== 'pageerror' && faults.explains(entry.url, entry.time));
+  }, { auto: true }],
+
+  // Sessions expire after 10 minutes, so one about to expire during the test is renewed first
+  storageState: async ({ persona, browser, baseURL, harMode }, use, testInfo) => {
+    // Logged out: no saved session at all, whatever the project configures
+    if (persona === null) {
+      await use(undefined);
+      return;
+    }
+    const statePath = authStatePath(persona);
+    if (fs.existsSync(statePath) && sessionExpiresWithin(statePath, testInfo.timeout)) {
+      await saveSession(browser, baseURL, harMode, persona);
+    }
+    if (!fs.existsSync(statePath)) {
+      throw new Error(
+        `No saved session for persona "${persona}" (${users[persona].username}). ` +
+        'Global setup only saves personas that can log in.'
+      );
+    }
+    await use(statePath);
+  },
+
+  // Records the traffic into, or serves it from, one archive per spec (see fixtures/har.ts)
+  context: async ({ context, harMode }, use, testInfo) => {
+    const archive = path.basename(testInfo.file, '.spec.ts');
+    const har = await useArchive(context, harMode, archive, `${testInfo.project.name}-${testInfo.testId}-${testInfo.retry}`);
+    await use(context);
+    har.assertAllRecorded();
+  },
+
+  faults: async ({ context, networkFaults }, use, testInfo) => {
+    const faults = new NetworkFaults(context);
+    for (const rule of networkFaults) {
+      await faults.add(rule);
+    }
+    await use(faults);
+    await faults.attachTo(testInfo);
+  },
+
+  // Depends on faults so that faults set with test.use() already apply to the first page load
+  page: async ({ page, persona, faults: _faults }, use, testInfo) => {
+    if (persona !== null) {
+      testInfo.annotations.push({ type: 'persona', description: users[persona].username });
+      await new InventoryPage(page).goto();
+    }
+    await use(page);
+  },
+
+  loginPage: async ({ page }, use) => {
+    await use(new LoginPage(page));
+  },
+
+  inventoryPage: async ({ page }, use) => {
+    await use(new InventoryPage(page));
+  },
+
+  inventoryItemPage: async ({ page }, use) => {
+    await use(new InventoryItemPage(page));
+  },
+
+  cartPage: async ({ page }, use) => {
+    await use(new CartPage(page));
+  },
+
+  checkoutPage: async ({ page }, use) => {
+    await use(new CheckoutPage(page));
+  },
+
+  cartSeeder: async ({ page }, use) => {
+    await use(new CartSeeder(page));
+  },
+
+  shopper: async ({ page }, use) => {
+    await use(new Shopper(page));
+  },
+
+  // Seeded from TEST_SEED when set, otherwise a fresh seed recorded as the test's `seed` annotation
+  customers: async ({}, use, testInfo) => {
+    const seed = resolveSeed();
+    testInfo.annotations.push({ type: 'seed', description: String(seed) });
+    await use(new CustomerFactory(seed));
+  },
+
+  // Budgets come from fixtures/performanceBudgets.json; results are attached for the timing reporter
+  perf: async ({ page, persona }, use, testInfo) => {
+    const tracker = new PerformanceTracker(page, loadBudget(persona));
+    await use(tracker);
+    await tracker.attachTo(testInfo);
+  },
+});
+
+export { expect };
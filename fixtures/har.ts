@@ -0,0 +1,143 @@
+import { BrowserContext } from '@playwright/test';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * HAR record and replay
+ * In record mode every browser context saves its traffic (with response bodies) to a part file;
+ * global-teardown.ts merges the parts into one archive per spec, e.g. har/checkout.har.
+ * In replay mode contexts are served only from those archives: nothing reaches the network,
+ * and a request missing from the archive is blocked and fails the test with its URL.
+ * Archives hold absolute URLs, so replay must use the base URL the archives were recorded with.
+ */
+
+export const HAR_DIR = path.join(__dirname, '..', 'har');
+const RECORDING_DIR = path.join(HAR_DIR, '.recording');
+
+export const harModes = ['off', 'record', 'replay'] as const;
+export type HarMode = typeof harModes[number];
+
+/**
+ * Options configurable through test.use() or a project's `use` block
+ */
+export type HarOptions = {
+  harMode: HarMode;
+};
+
+/**
+ * Read the mode from HAR_MODE
+ * @returns The selected mode, 'off' when unset
+ * @throws Error for an unknown mode
+ */
+export function harModeFromEnv(): HarMode {
+  const mode = process.env.HAR_MODE || 'off';
+  if (!harModes.includes(mode as HarMode)) {
+    throw new Error(`Unknown HAR_MODE "${mode}". Expected one of: ${harModes.join(', ')}`);
+  }
+  return mode as HarMode;
+}
+
+/**
+ * Location of the archive for a spec
+ * @param name - Archive name, e.g. "checkout" for checkout.spec.ts
+ */
+export function harPath(name: string): string {
+  return path.join(HAR_DIR, `${name}.har`);
+}
+
+/**
+ * Network archive attached to one browser context
+ */
+export interface HarSession {
+  /** Requests that were blocked in replay mode because the archive does not contain them */
+  unrecorded: string[];
+  /**
+   * Fail if any request was not served from the archive
+   * @throws Error listing every unrecorded request
+   */
+  assertAllRecorded(): void;
+}
+
+/**
+ * Record or replay a context's traffic
+ * Call before the first page of the context is opened
+ * @param context - The browser context
+ * @param mode - Record into a part file, replay from the archive, or do nothing
+ * @param name - Archive name, e.g. "checkout"
+ * @param part - Unique name of this context's recording within the archive
+ * @returns The session, to check for unrecorded requests once the context is done
+ * @throws Error in replay mode when the archive has not been recorded
+ * @example const har = await useArchive(context, 'replay', 'checkout', testInfo.testId)
+ */
+export async function useArchive(context: BrowserContext, mode: HarMode, name: string, part: string): Promise<HarSession> {
+  const archive = harPath(name);
+  const unrecorded: string[] = [];
+
+  if (mode === 'record') {
+    const partPath = path.join(RECORDING_DIR, name, `${part.replace(/[^\w.-]+/g, '_')}.har`);
+    await context.routeFromHAR(partPath, { update: true, updateContent: 'embed', updateMode: 'minimal' });
+  } else if (mode === 'replay') {
+    if (!fs.existsSync(archive)) {
+      throw new Error(`No HAR archive ${path.relative(process.cwd(), archive)}. Record it with npm run test:record`);
+    }
+    // Routes run newest first: archive misses fall back to this handler, which blocks them
+    await context.route('**/*', async (route) => {
+      unrecorded.push(`${route.request().method()} ${route.request().url()}`);
+      await route.abort('blockedbyclient');
+    });
+    await context.routeFromHAR(archive, { notFound: 'fallback' });
+  }
+
+  return {
+    unrecorded,
+    assertAllRecorded() {
+      if (unrecorded.length > 0) {
+        throw new Error(
+          `${unrecorded.length} request(s) not in ${path.relative(process.cwd(), archive)} ` +
+          `(re-record with npm run test:record):\n${[...new Set(unrecorded)].join('\n')}`
+        );
+      }
+    },
+  };
+}
+
+/**
+ * Minimal shape of a HAR file as far as merging is concerned
+ */
+interface HarFile {
+  log: {
+    entries: { request: { method: string; url: string; postData?: { text?: string } } }[];
+    [field: string]: unknown;
+  };
+}
+
+/**
+ * Merge the part files of a recording run into one archive per spec
+ * Entries are added to an existing archive; the latest response wins for the same
+ * method, URL and request body. Part files are deleted afterwards
+ * @returns Names of the archives written
+ */
+export function mergeRecordings(): string[] {
+  if (!fs.existsSync(RECORDING_DIR)) return [];
+
+  const written: string[] = [];
+  for (const name of fs.readdirSync(RECORDING_DIR).sort()) {
+    const partDir = path.join(RECORDING_DIR, name);
+    const parts = fs.readdirSync(partDir).filter((file) => file.endsWith('.har')).sort();
+    const files = [harPath(name), ...parts.map((file) => path.join(partDir, file))].filter((file) => fs.existsSync(file));
+    if (parts.length === 0) continue;
+
+    const har = files.map((file) => JSON.parse(fs.readFileSync(file, 'utf-8')) as HarFile);
+    const entries = new Map<string, HarFile['log']['entries'][number]>();
+    for (const entry of har.flatMap((file) => file.log.entries)) {
+      const { method, url, postData } = entry.request;
+      entries.set(`${method} ${url} ${postData?.text ?? ''}`, entry);
+    }
+
+    const merged: HarFile = { log: { ...har[har.length - 1].log, entries: [...entries.values()] } };
+    fs.writeFileSync(harPath(name), JSON.stringify(merged, null, 2));
+    written.push(name);
+  }
+  fs.rmSync(RECORDING_DIR, { recursive: true, force: true });
+  return written;
+}
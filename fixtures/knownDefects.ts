@@ -0,0 +1,105 @@
+import { TestInfo } from '@playwright/test';
+import { users } from './testData';
+
+/**
+ * Known-defect registry
+ * problem_user, error_user and visual_user break the shop on purpose. Each entry names the
+ * persona and the test it breaks, either by title or by a behavior tag on the test
+ * (e.g. '@sort'). Matching tests are marked as expected failures with an annotation;
+ * a matching test that passes is flagged "defect fixed?" by the fixture in fixtures.ts.
+ */
+
+/**
+ * A deliberate defect of one persona
+ */
+export interface KnownDefect {
+  persona: keyof typeof users;
+  /** Behavior tag the defect breaks, matched against the test's tags */
+  tag?: string;
+  /** Test title the defect breaks (exact string or pattern) */
+  test?: string | RegExp;
+  description: string;
+}
+
+export const knownDefects: KnownDefect[] = [
+  // problem_user
+  {
+    persona: 'problem',
+    tag: '@sort',
+    description: 'problem_user: sort dropdown does not reorder products',
+  },
+  {
+    persona: 'problem',
+    tag: '@catalog',
+    description: 'problem_user: every product image is the 404 dog picture',
+  },
+  {
+    persona: 'problem',
+    test: /^(Add multiple items to cart from inventory|Cart contents match selected items from inventory)$/,
+    description: 'problem_user: "Add to cart" does nothing for Bolt T-Shirt, Fleece Jacket and Red T-Shirt',
+  },
+  {
+    persona: 'problem',
+    tag: '@last-name',
+    description: "problem_user: last name field can't be typed into (input goes to first name)",
+  },
+  {
+    persona: 'problem',
+    test: 'Checkout displays error when first name is missing',
+    description: 'problem_user: typing the last name fills in the first name',
+  },
+
+  // error_user
+  {
+    persona: 'error',
+    tag: '@sort',
+    description: 'error_user: sorting raises a "Sorting is broken!" alert',
+  },
+  {
+    persona: 'error',
+    test: /^(Add multiple items to cart from inventory|Cart contents match selected items from inventory)$/,
+    description: 'error_user: "Add to cart" throws for Bolt T-Shirt, Fleece Jacket and Red T-Shirt',
+  },
+  {
+    persona: 'error',
+    tag: '@last-name',
+    description: "error_user: last name field can't be typed into",
+  },
+  {
+    persona: 'error',
+    tag: '@finish',
+    description: 'error_user: "Finish" throws and the order is never confirmed',
+  },
+
+  // visual_user
+  {
+    persona: 'visual',
+    tag: '@catalog',
+    description: 'visual_user: backpack shows the wrong image and prices are random',
+  },
+  {
+    persona: 'visual',
+    test: /^Sorting by "(lohi|hilo)"/,
+    description: 'visual_user: inventory prices are random so price sorting looks wrong',
+  },
+  {
+    persona: 'visual',
+    tag: '@visual',
+    description: 'visual_user: cart icon is rotated out of place and the checkout button is shifted',
+  },
+];
+
+/**
+ * Find the registered defects that apply to a test
+ * @param persona - The persona the test runs as
+ * @param testInfo - The running test's info (title and tags)
+ * @returns Matching defects, empty when the test is expected to pass
+ */
+export function findKnownDefects(persona: keyof typeof users, testInfo: TestInfo): KnownDefect[] {
+  return knownDefects.filter((defect) => {
+    if (defect.persona !== persona) return false;
+    if (defect.tag && testInfo.tags.includes(defect.tag)) return true;
+    if (typeof defect.test === 'string') return defect.test === testInfo.title;
+    return !!defect.test && defect.test.test(testInfo.title);
+  });
+}
@@ -0,0 +1,123 @@
+import { expect as baseExpect, ExpectMatcherState, MatcherReturnType, Page } from '@playwright/test';
+import { BasePage, PageClass } from '../pages/BasePage';
+
+/**
+ * Shop-specific matchers registered with expect.extend
+ * Every matcher accepts a Page or any page object, retries through expect.poll until it
+ * passes or the expect timeout (or `options.timeout`) runs out and supports `.not`
+ * @example
+ * await expect(page).toHaveCartCount(2);
+ * await expect(page).toBeOnPage(CartPage);
+ * await expect(cartPage).toContainCartItems([products.backpack]);
+ * await expect(loginPage).toShowError(errorMessages.lockedUser);
+ */
+
+type ShopTarget = Page | BasePage;
+
+function pageOf(target: ShopTarget): Page {
+  return target instanceof BasePage ? target.page : target;
+}
+
+/**
+ * Poll a value with expect.poll until it satisfies the check (or, for `.not`, stops satisfying it)
+ * expect.poll supplies the retry intervals and deadline, so matchers time out like web-first assertions
+ * @param state - Matcher context with isNot and the expect timeout
+ * @param read - Reads the current value from the page
+ * @param check - Whether the value satisfies the matcher
+ * @param timeout - Overrides the expect timeout
+ * @returns The last value read and whether it satisfied the check
+ * @throws Whatever reading the value throws, e.g. when the page was closed
+ */
+async function poll<T>(
+  state: ExpectMatcherState,
+  read: () => Promise<T>,
+  check: (actual: T) => boolean,
+  timeout: number = state.timeout
+): Promise<{ pass: boolean; actual: T }> {
+  let last: { actual: T } | undefined;
+  let reading = false;
+  let failure: unknown;
+  try {
+    await baseExpect.poll(async () => {
+      reading = true;
+      last = { actual: await read() };
+      reading = false;
+      return check(last.actual);
+    }, { timeout }).toBe(!state.isNot);
+  } catch (error) {
+    failure = error;
+  }
+  // Running out of time is reported by the matcher with the last value; a failed read is rethrown
+  if (reading || !last) throw failure;
+  return { pass: check(last.actual), actual: last.actual };
+}
+
+/**
+ * Build the matcher result with a Jest-style message
+ * @param details - Extra lines explaining the outcome (e.g. missing items)
+ */
+function result(
+  state: ExpectMatcherState,
+  name: string,
+  pass: boolean,
+  expected: unknown,
+  actual: unknown,
+  details: string[] = []
+): MatcherReturnType {
+  const message = () => [
+    state.utils.matcherHint(name, undefined, undefined, { isNot: state.isNot }),
+    '',
+    `Expected: ${state.isNot ? 'not ' : ''}${state.utils.printExpected(expected)}`,
+    `Received: ${state.utils.printReceived(actual)}`,
+    ...details,
+  ].join('\n');
+  return { pass, message, name, expected, actual };
+}
+
+export const expect = baseExpect.extend({
+  /**
+   * Cart badge shows the count (no badge for 0)
+   */
+  async toHaveCartCount(this: ExpectMatcherState, target: ShopTarget, expected: number, options?: { timeout?: number }) {
+    const page = pageOf(target);
+    const badge = page.locator('.shopping_cart_badge');
+    const { pass, actual } = await poll(this, async () => {
+      const text = await badge.isVisible() ? await badge.textContent() : null;
+      return text === null ? 0 : parseInt(text, 10);
+    }, (count) => count === expected, options?.timeout);
+    return result(this, 'toHaveCartCount', pass, expected, actual);
+  },
+
+  /**
+   * Current URL is one of the routes declared by the page object class
+   */
+  async toBeOnPage(this: ExpectMatcherState, target: ShopTarget, pageClass: PageClass, options?: { timeout?: number }) {
+    const page = pageOf(target);
+    const { pass, actual } = await poll(this, async () => new URL(page.url()).pathname,
+      (path) => pageClass.routes.some((route) => route === path), options?.timeout);
+    return result(this, 'toBeOnPage', pass, pageClass.name, actual, [`Routes:   ${pageClass.routes.join(', ')}`]);
+  },
+
+  /**
+   * Cart (or checkout overview) lists every given product name; other items are allowed
+   */
+  async toContainCartItems(this: ExpectMatcherState, target: ShopTarget, expected: string[], options?: { timeout?: number }) {
+    const names = pageOf(target).locator('.cart_item .inventory_item_name');
+    const { pass, actual } = await poll(this, () => names.allTextContents(), (items) =>
+      expected.every((name) => items.includes(name)), options?.timeout);
+    const missing = expected.filter((name) => !actual.includes(name));
+    return result(this, 'toContainCartItems', pass, expected, actual,
+      missing.length > 0 && !this.isNot ? [`Missing:  ${this.utils.printExpected(missing)}`] : []);
+  },
+
+  /**
+   * Login or checkout form shows exactly this error message
+   */
+  async toShowError(this: ExpectMatcherState, target: ShopTarget, expected: string, options?: { timeout?: number }) {
+    const error = pageOf(target).locator('[data-test="error"]');
+    const { pass, actual } = await poll(this, async () =>
+      await error.isVisible() ? (await error.textContent() || '').trim() : null,
+    (text) => text === expected, options?.timeout);
+    return result(this, 'toShowError', pass, expected, actual ?? '(no error shown)');
+  },
+});
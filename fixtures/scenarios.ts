@@ -0,0 +1,89 @@
+import * as path from 'path';
+import { loadScenarioTable } from '../utils/scenarioTable';
+import { users, errorMessages, customerInfo } from './testData';
+
+/**
+ * Scenario tables for the data-driven login and checkout validation tests
+ * The tables in fixtures/scenarios/ can be edited without touching TypeScript; every row is
+ * validated against the schemas below when a spec loads them, then resolved into test inputs.
+ */
+
+const SCENARIO_DIR = path.join(__dirname, 'scenarios');
+
+// Paths of the application, e.g. "/" or "/checkout-step-one.html"
+const APP_PATH = /^\/[\w.-]*$/;
+const TAG = /^@[\w-]+$/;
+
+type ErrorKey = keyof typeof errorMessages;
+type CustomerField = keyof typeof customerInfo.valid;
+
+/**
+ * One login attempt
+ */
+export interface LoginScenario {
+  title: string;
+  username: string;
+  password: string;
+  /** Error text expected on the login form, undefined when login should succeed */
+  expectedError?: string;
+  expectedUrl: string;
+  tags: string[];
+}
+
+/**
+ * One submission of the checkout information form
+ */
+export interface CheckoutValidationScenario {
+  title: string;
+  /** Fields to fill with customerInfo.valid; the others stay empty */
+  values: Partial<Record<CustomerField, string>>;
+  expectedError: string;
+  expectedUrl: string;
+  tags: string[];
+}
+
+/**
+ * Login attempts from login.csv
+ * Columns: title, user (persona key; passwords come from the environment), omit (username or
+ * password to leave empty), expectedError (key of errorMessages, empty for success), expectedUrl, tags
+ */
+export const loginScenarios: LoginScenario[] = loadScenarioTable(path.join(SCENARIO_DIR, 'login.csv'), {
+  title: { type: 'string', required: true },
+  user: { type: 'string', required: true, oneOf: Object.keys(users) },
+  omit: { type: 'string', oneOf: ['username', 'password'] },
+  expectedError: { type: 'string', oneOf: Object.keys(errorMessages) },
+  expectedUrl: { type: 'string', required: true, pattern: APP_PATH },
+  tags: { type: 'list', pattern: TAG },
+}).map((row) => {
+  const user = users[row.user as keyof typeof users];
+  return {
+    title: row.title,
+    username: row.omit === 'username' ? '' : user.username,
+    password: row.omit === 'password' ? '' : user.password,
+    expectedError: row.expectedError ? errorMessages[row.expectedError as ErrorKey] : undefined,
+    expectedUrl: row.expectedUrl,
+    tags: row.tags,
+  };
+});
+
+/**
+ * Checkout information form submissions from checkout-validation.json
+ * Fields: title, fill (list of firstName, lastName, postalCode), expectedError (key of
+ * errorMessages), expectedUrl, tags
+ */
+export const checkoutValidationScenarios: CheckoutValidationScenario[] = loadScenarioTable(
+  path.join(SCENARIO_DIR, 'checkout-validation.json'),
+  {
+    title: { type: 'string', required: true },
+    fill: { type: 'list', oneOf: Object.keys(customerInfo.valid) },
+    expectedError: { type: 'string', required: true, oneOf: Object.keys(errorMessages) },
+    expectedUrl: { type: 'string', required: true, pattern: APP_PATH },
+    tags: { type: 'list', pattern: TAG },
+  }
+).map((row) => ({
+  title: row.title,
+  values: Object.fromEntries(row.fill.map((field) => [field, customerInfo.valid[field as CustomerField]])),
+  expectedError: errorMessages[row.expectedError as ErrorKey],
+  expectedUrl: row.expectedUrl,
+  tags: row.tags,
+}));
@@ -1,34 +1,27 @@
+import { environment } from './environment';
+
 /**
  * Centralized test data for SauceDemo application
  * Contains reusable credentials, user information, and product data
  */
 
 /**
- * Valid user credentials for SauceDemo
+ * Persona credentials for the selected environment (see fixtures/environment.ts),
+ * plus an account that does not exist for negative login tests
  */
 export const users = {
-  standard: {
-    username: 'standard_user',
-    password: 'secret_sauce',
-  },
-  locked: {
-    username: 'locked_out_user',
-    password: 'secret_sauce',
-  },
-  problem: {
-    username: 'problem_user',
-    password: 'secret_sauce',
-  },
-  performance: {
-    username: 'performance_glitch_user',
-    password: 'secret_sauce',
-  },
+  ...environment.credentials,
   invalid: {
     username: 'invalid_user',
     password: 'wrong_password',
   },
 };
 
+/**
+ * Personas that can log in and shop, used for the persona matrix runs
+ */
+export const shoppingPersonas = ['standard', 'problem', 'performance', 'error', 'visual'] as const;
+
 /**
  * Sample customer information for checkout
  */
@@ -58,6 +51,79 @@ export const products = {
   redTShirt: 'Test.allTheThings() T-Shirt (Red)',
 };
 
+/**
+ * Key of a product in the products map (e.g. 'backpack')
+ */
+export type ProductKey = keyof typeof products;
+
+/**
+ * Product as displayed on the inventory page
+ * `image` is the image file name without content hash and extension
+ */
+export interface Product {
+  id: number;
+  name: string;
+  description: string;
+  price: number;
+  image: string;
+}
+
+/**
+ * Full product catalog as standard_user sees it
+ * Ids match the site's item links (inventory-item.html?id=N) and client-side cart
+ */
+export const catalog: Record<ProductKey, Product> = {
+  backpack: {
+    id: 4,
+    name: products.backpack,
+    description: 'carry.allTheThings() with the sleek, streamlined Sly Pack that melds uncompromising style with unequaled laptop and tablet protection.',
+    price: 29.99,
+    image: 'sauce-backpack-1200x1500',
+  },
+  bikeLight: {
+    id: 0,
+    name: products.bikeLight,
+    description: "A red light isn't the desired state in testing but it sure helps when riding your bike at night. Water-resistant with 3 lighting modes, 1 AAA battery included.",
+    price: 9.99,
+    image: 'bike-light-1200x1500',
+  },
+  boltTShirt: {
+    id: 1,
+    name: products.boltTShirt,
+    description: 'Get your testing superhero on with the Sauce Labs bolt T-shirt. From American Apparel, 100% ringspun combed cotton, heather gray with red bolt.',
+    price: 15.99,
+    image: 'bolt-shirt-1200x1500',
+  },
+  fleeceJacket: {
+    id: 5,
+    name: products.fleeceJacket,
+    description: "It's not every day that you come across a midweight quarter-zip fleece jacket capable of handling everything from a relaxing day outdoors to a busy day at the office.",
+    price: 49.99,
+    image: 'sauce-pullover-1200x1500',
+  },
+  onesie: {
+    id: 2,
+    name: products.onesie,
+    description: "Rib snap infant onesie for the junior automation engineer in development. Reinforced 3-snap bottom closure, two-needle hemmed sleeved and bottom won't unravel.",
+    price: 7.99,
+    image: 'red-onesie-1200x1500',
+  },
+  redTShirt: {
+    id: 3,
+    name: products.redTShirt,
+    description: 'This classic Sauce Labs t-shirt is perfect to wear when cooking up a batch of hot sauce. Super-soft and comfy ringspun combed cotton.',
+    price: 15.99,
+    image: 'red-tatt-1200x1500',
+  },
+};
+
+/**
+ * Pricing rules applied at checkout
+ */
+export const pricing = {
+  taxRate: 0.08,
+};
+
 /**
  * Expected error messages
  */
@@ -71,6 +137,14 @@ export const errorMessages = {
   missingPostalCode: 'Error: Postal Code is required',
 };
 
+/**
+ * Payment and shipping information shown on the order overview
+ */
+export const orderInfo = {
+  payment: 'SauceCard #31337',
+  shipping: 'Free Pony Express Delivery!',
+};
+
 /**
  * Expected confirmation messages
  */
@@ -0,0 +1,31 @@
+import { chromium, FullConfig } from '@playwright/test';
+import { users } from './fixtures/testData';
+import { saveSession } from './fixtures/authState';
+import { HarOptions } from './fixtures/har';
+
+/**
+ * Global setup
+ * Logs every persona in testData users in once through the real login form and
+ * saves its cookies and localStorage, so tests can start authenticated via storageState.
+ * Personas the site rejects (locked, invalid) get no state file.
+ *
+ * With HAR_MODE set, the logins are recorded into or replayed from har/global-setup.har.
+ *
+ * Note: saucedemo.com expires the session cookie after 10 minutes; the storageState fixture
+ * (fixtures/fixtures.ts) logs the persona in again when its saved session is about to expire
+ */
+async function globalSetup(config: FullConfig): Promise<void> {
+  const { baseURL } = config.projects[0].use;
+  const { harMode = 'off' } = config.projects[0].use as Partial<HarOptions>;
+
+  const browser = await chromium.launch();
+  try {
+    for (const persona of Object.keys(users) as (keyof typeof users)[]) {
+      await saveSession(browser, baseURL, harMode, persona);
+    }
+  } finally {
+    await browser.close();
+  }
+}
+
+export default globalSetup;
@@ -0,0 +1,17 @@
+import { FullConfig } from '@playwright/test';
+import { HarOptions, mergeRecordings } from './fixtures/har';
+
+/**
+ * Global teardown
+ * After a recording run (HAR_MODE=record), merges the traffic recorded by each test
+ * into one archive per spec under har/ (see fixtures/har.ts)
+ */
+async function globalTeardown(config: FullConfig): Promise<void> {
+  const { harMode } = config.projects[0].use as Partial<HarOptions>;
+  if (harMode !== 'record') return;
+
+  const archives = mergeRecordings();
+  console.log(`Recorded HAR archives: ${archives.map((name) => `har/${name}.har`).join(', ') || 'none'}`);
+}
+
+export default globalTeardown;
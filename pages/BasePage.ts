@@ -1,10 +1,42 @@
-import { Page } from '@playwright/test';
+import { Page, Locator, expect, test } from '@playwright/test';
+import { HeaderComponent } from './components/HeaderComponent';
+import { AccessibilityAllowance, auditAccessibility, findAllowance, formatAudit } from '../utils/accessibility';
+import { accessibilityAllowlist } from '../fixtures/accessibilityAllowlist';
+
+/**
+ * Paths of the application's pages, relative to the baseURL
+ */
+export enum Route {
+  Login = '/',
+  Inventory = '/inventory.html',
+  InventoryItem = '/inventory-item.html',
+  Cart = '/cart.html',
+  CheckoutInformation = '/checkout-step-one.html',
+  CheckoutOverview = '/checkout-step-two.html',
+  CheckoutComplete = '/checkout-complete.html',
+}
+
+/**
+ * A page object class with the routes it covers (e.g. CartPage), as accepted by at() and goto()
+ */
+export type PageClass<T extends BasePage = BasePage> = (new (page: Page) => T) & {
+  readonly routes: readonly Route[];
+};
 
 /**
  * BasePage class provides common functionality shared across all page objects
- * This includes navigation, common waits, and shared utility methods
+ * This includes navigation, common waits, shared utility methods and the page header
  */
 export class BasePage {
+  // Routes this page object covers; goto() opens the first one by default
+  static readonly routes: readonly Route[] = [];
+
+  // Header with cart link/badge and burger menu, shared by every logged-in page
+  readonly header = new HeaderComponent(this.page);
+
+  // Main content region covered by the ARIA structure snapshot; page objects narrow it
+  readonly mainRegion: Locator = this.page.locator('body');
+
   constructor(public page: Page) {}
 
   /**
@@ -16,6 +48,56 @@ export class BasePage {
     await this.page.goto(path);
   }
 
+  /**
+   * Open one of this page object's routes and wait until the page is loaded
+   * @param route - Route to open (defaults to the page object's first route)
+   * @param query - Query parameters, e.g. { id: 4 } for a product detail page
+   * @returns This page object, for chaining
+   * @throws Error if the route belongs to another page object or the page does not load
+   * @example const cartPage = await new CartPage(page).goto()
+   */
+  async goto(route?: Route, query: Record<string, string | number> = {}): Promise<this> {
+    const pageClass = this.constructor as PageClass<this>;
+    const target = route ?? pageClass.routes[0];
+    if (!pageClass.routes.includes(target)) {
+      throw new Error(`${pageClass.name} does not cover route ${target} (routes: ${pageClass.routes.join(', ')})`);
+    }
+    const search = new URLSearchParams(Object.entries(query).map(([key, value]) => [key, String(value)])).toString();
+    await this.page.goto(search ? `${target}?${search}` : target);
+    await this.at(pageClass);
+    return this;
+  }
+
+  /**
+   * Check the browser is on a page of the given class and wait until that page is loaded
+   * @param pageClass - The page object class expected for the current URL
+   * @returns A page object of that class for the current page
+   * @throws Error like "expected CartPage but on checkout-step-one" when the URL never matches;
+   * any other failure (e.g. a closed page) is rethrown unchanged
+   * @example const cartPage = await inventoryPage.at(CartPage)
+   */
+  async at<T extends BasePage>(pageClass: PageClass<T>): Promise<T> {
+    try {
+      await expect(this.page).toHaveURL((url) => pageClass.routes.includes(url.pathname as Route));
+    } catch (error) {
+      // Failed expect() assertions carry a matcherResult; only those mean "on another page"
+      const urlMismatch = error instanceof Error && 'matcherResult' in error && !this.page.isClosed();
+      if (!urlMismatch) throw error;
+      throw new Error(`expected ${pageClass.name} but on ${this.routeName()}`);
+    }
+    const target = new pageClass(this.page);
+    await target.waitUntilLoaded();
+    return target;
+  }
+
+  /**
+   * Wait until the page's loaded condition holds
+   * Defaults to the main region being visible; page objects override it with their own condition
+   */
+  async waitUntilLoaded(): Promise<void> {
+    await expect(this.mainRegion).toBeVisible();
+  }
+
   /**
    * Get the current URL of the page
    * @returns The current page URL as a string
@@ -32,4 +114,77 @@ export class BasePage {
   async waitForUrl(urlPattern: RegExp | string): Promise<void> {
     await this.page.waitForURL(urlPattern);
   }
+
+  /**
+   * Compare a full-page screenshot with the committed baseline for this page
+   * Baselines are kept per browser under tests/__screenshots__ and shared by every persona,
+   * so a persona that renders differently (e.g. visual_user) fails the comparison.
+   * Run `npm run test:visual:update` to record new baselines
+   * @param name - Baseline name (defaults to the route, e.g. "checkout-step-two")
+   * @example await cartPage.assertMatchesBaseline()
+   */
+  async assertMatchesBaseline(name: string = this.routeName()): Promise<void> {
+    const browserName = this.page.context().browser()?.browserType().name() ?? 'unknown';
+    await expect(this.page).toHaveScreenshot([browserName, `${name}.png`], {
+      fullPage: true,
+      mask: this.visualMasks(),
+    });
+  }
+
+  /**
+   * Regions that change between runs and are masked in visual comparisons
+   * Page objects with their own dynamic content extend this list
+   * @returns Locators painted over before the screenshot is compared
+   */
+  protected visualMasks(): Locator[] {
+    // The footer carries the copyright year
+    return [this.page.locator('.footer_copy')];
+  }
+
+  /**
+   * Compare the ARIA role tree of the main region with its committed snapshot
+   * Structural and semantic changes (roles, accessible names, nesting) fail here with a
+   * tree diff, separately from functional assertions. Snapshots are committed in
+   * tests/__aria__; run `npm run test:structure:update` after an intended change
+   * @param name - Snapshot name (defaults to the route, e.g. "checkout-step-two")
+   * @example await cartPage.assertStructure()
+   */
+  async assertStructure(name: string = this.routeName()): Promise<void> {
+    await expect(this.mainRegion).toMatchAriaSnapshot({ name: `${name}.yml` });
+  }
+
+  /**
+   * Audit the current page for accessibility problems and fail on any not in the allowlist
+   * The full audit, including allowlisted findings, is attached to the test report
+   * @param allow - Extra accepted violations for this check (added to fixtures/accessibilityAllowlist.ts)
+   * @example await checkoutPage.assertAccessible()
+   */
+  async assertAccessible(allow: AccessibilityAllowance[] = []): Promise<void> {
+    const allowlist = [...accessibilityAllowlist, ...allow];
+    const violations = await auditAccessibility(this.page);
+    const summary = formatAudit(this.routeName(), violations, allowlist);
+    await test.info().attach(`accessibility-${this.routeName()}`, { body: summary, contentType: 'text/plain' });
+
+    const unexpected = violations.filter((violation) => !findAllowance(violation, allowlist));
+    expect(unexpected, summary).toEqual([]);
+  }
+
+  /**
+   * Derive a short page name from the current route
+   * @returns The path without slashes or extension, "login" for the root
+   */
+  private routeName(): string {
+    const route = new URL(this.page.url()).pathname.replace(/^\/|\.html$/g, '');
+    return route || 'login';
+  }
+
+  /**
+   * Reduce a product image URL to its file name without content hash and extension
+   * @param src - The image src attribute
+   * @returns The image name, e.g. "sauce-backpack-1200x1500"
+   * @example this.imageName('/static/media/sauce-backpack-1200x1500.0a0b85a3.jpg')
+   */
+  protected imageName(src: string | null): string {
+    return (src || '').replace(/^.*\//, '').replace(/(\.[0-9a-f]{8})?\.\w+$/, '');
+  }
 }
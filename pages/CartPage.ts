@@ -1,21 +1,34 @@
-import { BasePage } from './BasePage';
+import { BasePage, Route } from './BasePage';
 import { Page, expect, Locator } from '@playwright/test';
+import { CartListComponent, LineItem } from './components/CartListComponent';
+import { CheckoutPage } from './CheckoutPage';
+import { Chain, chain } from '../utils/chain';
 
 /**
  * CartPage represents the shopping cart page
  * Handles cart item management, verification, and checkout navigation
  */
 export class CartPage extends BasePage {
+  static readonly routes = [Route.Cart];
+
   // Main cart elements
   readonly checkoutButton = this.page.locator('[data-test="checkout"]');
   readonly continueShoppingButton = this.page.locator('[data-test="continue-shopping"]');
   readonly cartItems = this.page.locator('.cart_item');
-  readonly cartBadge = this.page.locator('.shopping_cart_badge');
+  readonly cartList = new CartListComponent(this.page);
+  readonly mainRegion = this.page.locator('.cart_contents_container');
 
   constructor(page: Page) {
     super(page);
   }
 
+  /**
+   * Loaded once the checkout button is shown (the cart itself may be empty)
+   */
+  async waitUntilLoaded(): Promise<void> {
+    await expect(this.checkoutButton).toBeVisible();
+  }
+
   /**
    * Get the cart item element for a specific product
    * @param itemName - The name of the product
@@ -50,6 +63,18 @@ export class CartPage extends BasePage {
     await this.checkoutButton.click();
   }
 
+  /**
+   * Start checkout and wait until the customer information step is loaded
+   * @returns Chain continuing on the checkout page
+   * @example await cartPage.checkout().fillInfo(customer).finish()
+   */
+  checkout(): Chain<CheckoutPage> {
+    return chain(async () => {
+      await this.beginCheckout();
+      return this.at(CheckoutPage);
+    });
+  }
+
   /**
    * Remove a specific item from the cart
    * @param itemName - The name of the product to remove
@@ -79,11 +104,7 @@ export class CartPage extends BasePage {
    * @returns The number displayed in cart badge, or 0 if not visible
    */
   async getCartBadgeCount(): Promise<number> {
-    if (await this.cartBadge.isVisible()) {
-      const text = await this.cartBadge.textContent();
-      return parseInt(text || '0', 10);
-    }
-    return 0;
+    return this.header.getCartCount();
   }
 
   /**
@@ -115,11 +136,7 @@ export class CartPage extends BasePage {
    * @param expectedCount - The expected number in badge
    */
   async assertCartBadgeCount(expectedCount: number): Promise<void> {
-    if (expectedCount === 0) {
-      await expect(this.cartBadge).not.toBeVisible();
-    } else {
-      await expect(this.cartBadge).toHaveText(expectedCount.toString());
-    }
+    await this.header.assertCartCount(expectedCount);
   }
 
   /**
@@ -144,4 +161,12 @@ export class CartPage extends BasePage {
     }
     return names;
   }
+
+  /**
+   * Get every cart row with quantity and price
+   * @returns Line items in cart order
+   */
+  async getCartItems(): Promise<LineItem[]> {
+    return this.cartList.getItems();
+  }
 }
@@ -1,11 +1,27 @@
-import { BasePage } from './BasePage';
+import { BasePage, Route } from './BasePage';
 import { Page, expect } from '@playwright/test';
+import { CartListComponent, LineItem } from './components/CartListComponent';
+import { pricing } from '../fixtures/testData';
+import { Customer } from '../fixtures/CustomerFactory';
+import { parseMoney, toCents, formatMoney } from '../utils/money';
+import { Chain, chain } from '../utils/chain';
+
+/**
+ * Numeric price summary from the order overview
+ */
+export interface OrderSummary {
+  itemTotal: number;
+  tax: number;
+  total: number;
+}
 
 /**
  * CheckoutPage represents the multi-step checkout process
  * Handles customer information, order review, and order completion
  */
 export class CheckoutPage extends BasePage {
+  static readonly routes = [Route.CheckoutInformation, Route.CheckoutOverview, Route.CheckoutComplete];
+
   // Step 1: Customer information form elements
   readonly firstName = this.page.locator('#first-name');
   readonly lastName = this.page.locator('#last-name');
@@ -19,12 +35,18 @@ export class CheckoutPage extends BasePage {
   readonly itemTotal = this.page.locator('.summary_subtotal_label');
   readonly tax = this.page.locator('.summary_tax_label');
   readonly total = this.page.locator('.summary_total_label');
+  readonly overviewList = new CartListComponent(this.page);
+  readonly paymentInfo = this.page.locator('[data-test="payment-info-value"]');
+  readonly shippingInfo = this.page.locator('[data-test="shipping-info-value"]');
 
   // Step 3: Confirmation elements
   readonly confirmationHeader = this.page.locator('.complete-header');
   readonly confirmationMessage = this.page.locator('.complete-text');
   readonly backHomeButton = this.page.locator('[data-test="back-to-products"]');
 
+  // Container of whichever step is shown; its visibility is the loaded condition
+  readonly mainRegion = this.page.locator('.checkout_info_container, .checkout_summary_container, .checkout_complete_container');
+
   constructor(page: Page) {
     super(page);
   }
@@ -43,6 +65,33 @@ export class CheckoutPage extends BasePage {
     await this.continueButton.click();
   }
 
+  /**
+   * Submit the customer information and wait for the order overview
+   * @param customer - Customer to enter, e.g. customerInfo.valid or a generated customer
+   * @returns Chain continuing on the overview step
+   * @example await checkoutPage.fillInfo(customerInfo.valid).finish()
+   */
+  fillInfo(customer: Customer): Chain<this> {
+    return chain(async () => {
+      await this.fillCustomerInfo(customer.firstName, customer.lastName, customer.postalCode);
+      await expect(this.finishButton).toBeVisible();
+      return this;
+    });
+  }
+
+  /**
+   * Finish the order and wait for the confirmation
+   * @returns Chain continuing on the complete step
+   * @example await checkoutPage.finish()
+   */
+  finish(): Chain<this> {
+    return chain(async () => {
+      await this.finishOrder();
+      await this.assertOnCompletePage();
+      return this;
+    });
+  }
+
   /**
    * Fill only the first name field (for validation testing)
    * @param firstName - Customer's first name
@@ -181,4 +230,83 @@ export class CheckoutPage extends BasePage {
   async getTotal(): Promise<string> {
     return await this.total.textContent() || '';
   }
+
+  /**
+   * Get the items listed on the order overview
+   * @returns Line items in overview order
+   */
+  async getOverviewItems(): Promise<LineItem[]> {
+    return this.overviewList.getItems();
+  }
+
+  /**
+   * Get the payment information shown on the order overview
+   * @returns The payment information (e.g., "SauceCard #31337")
+   */
+  async getPaymentInfo(): Promise<string> {
+    return (await this.paymentInfo.textContent() || '').trim();
+  }
+
+  /**
+   * Get the shipping information shown on the order overview
+   * @returns The shipping information (e.g., "Free Pony Express Delivery!")
+   */
+  async getShippingInfo(): Promise<string> {
+    return (await this.shippingInfo.textContent() || '').trim();
+  }
+
+  /**
+   * Verify the order overview lists exactly the items the cart showed
+   * @param cartItems - Line items read from CartPage before checkout
+   * @example await checkoutPage.assertOverviewMatchesCart(await cartPage.getCartItems())
+   */
+  async assertOverviewMatchesCart(cartItems: LineItem[]): Promise<void> {
+    await expect(this.itemTotal).toBeVisible();
+    expect(await this.getOverviewItems(), 'Order overview items differ from the cart').toEqual(cartItems);
+  }
+
+  /**
+   * Get the price summary from order overview as numbers
+   * @returns Item total, tax and total in dollars
+   */
+  async getOrderSummary(): Promise<OrderSummary> {
+    return {
+      itemTotal: parseMoney(await this.getItemTotal()),
+      tax: parseMoney(await this.getTax()),
+      total: parseMoney(await this.getTotal()),
+    };
+  }
+
+  /**
+   * Verify the order overview totals add up
+   * Item total must equal the sum of line prices, tax must equal item total times the
+   * tax rate rounded to the cent, and total must equal item total plus tax
+   * @param taxRate - The expected tax rate (defaults to the site's rate)
+   */
+  async assertTotalsConsistent(taxRate: number = pricing.taxRate): Promise<void> {
+    await expect(this.itemTotal).toBeVisible();
+    const linePrices = (await this.getOverviewItems()).map((item) => item.price * item.quantity);
+    const summary = await this.getOrderSummary();
+
+    const expectedItemTotal = linePrices.reduce((sum, price) => sum + toCents(price), 0);
+    const expectedTax = toCents((expectedItemTotal / 100) * taxRate);
+    const expectedTotal = toCents(summary.itemTotal) + toCents(summary.tax);
+
+    const checks = [
+      { label: 'Item total', actual: toCents(summary.itemTotal), expected: expectedItemTotal },
+      { label: `Tax (${taxRate * 100}%)`, actual: toCents(summary.tax), expected: expectedTax },
+      { label: 'Total', actual: toCents(summary.total), expected: expectedTotal },
+    ];
+    const mismatches = checks.filter((check) => check.actual !== check.expected).map((check) => check.label);
+
+    const breakdown = [
+      'Order totals are inconsistent:',
+      `  Line prices: ${linePrices.map(formatMoney).join(' + ') || 'none'}`,
+      ...checks.map((check) =>
+        `  ${check.label}: ${formatMoney(check.actual / 100)} (expected ${formatMoney(check.expected / 100)})` +
+        (check.actual === check.expected ? '' : '  <-- mismatch')
+      ),
+    ].join('\n');
+    expect(mismatches, breakdown).toEqual([]);
+  }
 }
@@ -0,0 +1,149 @@
+import { BasePage, Route } from './BasePage';
+import { Page, expect } from '@playwright/test';
+import { Product, catalog } from '../fixtures/testData';
+import { parseMoney } from '../utils/money';
+
+/**
+ * InventoryItemPage represents the product detail page (inventory-item.html?id=N)
+ * Handles product details, cart actions from the detail view, and returning to the inventory
+ */
+export class InventoryItemPage extends BasePage {
+  static readonly routes = [Route.InventoryItem];
+
+  // Product detail elements
+  readonly itemName = this.page.locator('.inventory_details_name');
+  readonly itemDescription = this.page.locator('.inventory_details_desc');
+  readonly itemPrice = this.page.locator('.inventory_details_price');
+  readonly itemImage = this.page.locator('img.inventory_details_img');
+  readonly mainRegion = this.page.locator('.inventory_details');
+
+  // Action buttons
+  readonly addToCartButton = this.page.locator('[data-test="add-to-cart"]');
+  readonly removeButton = this.page.locator('[data-test="remove"]');
+  readonly backButton = this.page.locator('[data-test="back-to-products"]');
+
+  constructor(page: Page) {
+    super(page);
+  }
+
+  /**
+   * Loaded once the product name is shown
+   */
+  async waitUntilLoaded(): Promise<void> {
+    await expect(this.itemName).toBeVisible();
+  }
+
+  /**
+   * Open the detail page of a product by its id
+   * @param id - The product id
+   * @example await inventoryItemPage.open(4)
+   */
+  async open(id: number): Promise<void> {
+    await this.goto(Route.InventoryItem, { id });
+  }
+
+  /**
+   * Open the detail page of a product by its name
+   * @param name - The product name as listed in the catalog
+   * @example await inventoryItemPage.openByName('Sauce Labs Backpack')
+   */
+  async openByName(name: string): Promise<void> {
+    const product = Object.values(catalog).find((candidate) => candidate.name === name);
+    if (!product) {
+      throw new Error(`Product "${name}" is not in the catalog`);
+    }
+    await this.open(product.id);
+  }
+
+  /**
+   * Get the id of the product being displayed, taken from the URL
+   * @returns The product id
+   */
+  async getId(): Promise<number> {
+    return parseInt(new URL(this.page.url()).searchParams.get('id') || '', 10);
+  }
+
+  /**
+   * Get the product name
+   * @returns The product name
+   */
+  async getName(): Promise<string> {
+    return (await this.itemName.textContent() || '').trim();
+  }
+
+  /**
+   * Get the product description
+   * @returns The product description
+   */
+  async getDescription(): Promise<string> {
+    return (await this.itemDescription.textContent() || '').trim();
+  }
+
+  /**
+   * Get the product price
+   * @returns The price as a number (e.g., 29.99)
+   */
+  async getPrice(): Promise<number> {
+    return parseMoney(await this.itemPrice.textContent());
+  }
+
+  /**
+   * Get the product image name
+   * @returns The image file name without hash and extension
+   */
+  async getImage(): Promise<string> {
+    return this.imageName(await this.itemImage.getAttribute('src'));
+  }
+
+  /**
+   * Read all product details shown on the page
+   * @returns The displayed product
+   */
+  async getProduct(): Promise<Product> {
+    await this.itemName.waitFor();
+    return {
+      id: await this.getId(),
+      name: await this.getName(),
+      description: await this.getDescription(),
+      price: await this.getPrice(),
+      image: await this.getImage(),
+    };
+  }
+
+  /**
+   * Add the displayed product to the cart
+   */
+  async addToCart(): Promise<void> {
+    await this.addToCartButton.click();
+  }
+
+  /**
+   * Remove the displayed product from the cart
+   */
+  async removeFromCart(): Promise<void> {
+    await this.removeButton.click();
+  }
+
+  /**
+   * Return to the inventory page
+   */
+  async backToProducts(): Promise<void> {
+    await this.backButton.click();
+  }
+
+  /**
+   * Check if the displayed product is in the cart (button shows "Remove")
+   * @returns True if product is in cart, false otherwise
+   */
+  async isInCart(): Promise<boolean> {
+    return await this.removeButton.isVisible();
+  }
+
+  /**
+   * Verify the page shows a specific product
+   * @param expected - The expected product
+   */
+  async assertShowsProduct(expected: Product): Promise<void> {
+    expect(await this.getProduct()).toEqual(expected);
+  }
+}
@@ -1,30 +1,75 @@
-import { BasePage } from './BasePage';
-import { Page, expect } from '@playwright/test';
+import { BasePage, Route } from './BasePage';
+import { Page, Locator, expect } from '@playwright/test';
+import { CartPage } from './CartPage';
+import { Product } from '../fixtures/testData';
+import { parseMoney } from '../utils/money';
+import { Chain, chain } from '../utils/chain';
+
+/**
+ * Options of the product sort dropdown (values of the select element)
+ */
+export enum SortOption {
+  NameAToZ = 'az',
+  NameZToA = 'za',
+  PriceLowToHigh = 'lohi',
+  PriceHighToLow = 'hilo',
+}
+
+/**
+ * Visible label for each sort option
+ */
+const SORT_LABELS: Record<SortOption, string> = {
+  [SortOption.NameAToZ]: 'Name (A to Z)',
+  [SortOption.NameZToA]: 'Name (Z to A)',
+  [SortOption.PriceLowToHigh]: 'Price (low to high)',
+  [SortOption.PriceHighToLow]: 'Price (high to low)',
+};
 
 /**
  * InventoryPage represents the product inventory/catalog page
  * Handles product selection, cart operations, and inventory navigation
  */
 export class InventoryPage extends BasePage {
-  // Locators for cart and inventory elements
-  readonly cartIcon = this.page.locator('.shopping_cart_link');
-  readonly cartBadge = this.page.locator('.shopping_cart_badge');
+  static readonly routes = [Route.Inventory];
+
+  // Locators for inventory elements
   readonly inventoryContainer = this.page.locator('.inventory_container');
   readonly inventoryItems = this.page.locator('.inventory_item');
+  readonly itemNames = this.page.locator('.inventory_item_name');
+  readonly itemPrices = this.page.locator('.inventory_item_price');
+  readonly mainRegion = this.page.locator('.inventory_list');
+
+  // Sorting elements
+  readonly sortDropdown = this.page.locator('[data-test="product-sort-container"]');
+  readonly activeSortOption = this.page.locator('.active_option');
 
   constructor(page: Page) {
     super(page);
   }
 
+  /**
+   * Loaded once the product cards are rendered
+   */
+  async waitUntilLoaded(): Promise<void> {
+    await expect(this.inventoryItems.first()).toBeVisible();
+  }
+
+  /**
+   * Get the product card for a specific product
+   * @param itemName - The name of the product
+   * @returns Locator for the inventory item card
+   */
+  private productCard(itemName: string): Locator {
+    return this.page.locator('.inventory_item', { hasText: itemName });
+  }
+
   /**
    * Get the "Add to cart" button for a specific product
    * @param itemName - The name of the product
    * @returns Locator for the add to cart button
    */
   private addToCartButton(itemName: string) {
-    return this.page
-      .locator('.inventory_item', { hasText: itemName })
-      .locator('button:has-text("Add to cart")');
+    return this.productCard(itemName).locator('button:has-text("Add to cart")');
   }
 
   /**
@@ -33,9 +78,7 @@ export class InventoryPage extends BasePage {
    * @returns Locator for the remove button
    */
   private removeButton(itemName: string) {
-    return this.page
-      .locator('.inventory_item', { hasText: itemName })
-      .locator('button:has-text("Remove")');
+    return this.productCard(itemName).locator('button:has-text("Remove")');
   }
 
   /**
@@ -47,6 +90,35 @@ export class InventoryPage extends BasePage {
     await this.addToCartButton(itemName).click();
   }
 
+  /**
+   * Add several items to the cart and check the badge counted each of them
+   * @param itemNames - Names of the products to add
+   * @returns Chain continuing on this page
+   * @example await inventoryPage.addItems([products.backpack, products.onesie]).openCart()
+   */
+  addItems(itemNames: string[]): Chain<this> {
+    return chain(async () => {
+      const before = await this.getCartCount();
+      for (const itemName of itemNames) {
+        await this.addItem(itemName);
+      }
+      await this.assertCartCount(before + itemNames.length);
+      return this;
+    });
+  }
+
+  /**
+   * Open the cart from the header and wait until it is loaded
+   * @returns Chain continuing on the cart page
+   * @example const cartPage = await inventoryPage.openCart()
+   */
+  openCart(): Chain<CartPage> {
+    return chain(async () => {
+      await this.goToCart();
+      return this.at(CartPage);
+    });
+  }
+
   /**
    * Remove a specific item from the shopping cart
    * @param itemName - The name of the product to remove
@@ -56,11 +128,38 @@ export class InventoryPage extends BasePage {
     await this.removeButton(itemName).click();
   }
 
+  /**
+   * Open a product's detail page by clicking its title
+   * @param itemName - The name of the product
+   * @example await inventoryPage.openProductByTitle('Sauce Labs Backpack')
+   */
+  async openProductByTitle(itemName: string): Promise<void> {
+    await this.productCard(itemName).locator('.inventory_item_name').click();
+  }
+
+  /**
+   * Open a product's detail page by clicking its image
+   * @param itemName - The name of the product
+   * @example await inventoryPage.openProductByImage('Sauce Labs Backpack')
+   */
+  async openProductByImage(itemName: string): Promise<void> {
+    await this.productCard(itemName).locator('.inventory_item_img a').click();
+  }
+
+  /**
+   * Read the product card for a specific product
+   * @param itemName - The name of the product
+   * @returns The product shown on the card
+   */
+  async getProduct(itemName: string): Promise<Product> {
+    return this.readProductCard(this.productCard(itemName));
+  }
+
   /**
    * Navigate to the shopping cart page
    */
   async goToCart(): Promise<void> {
-    await this.cartIcon.click();
+    await this.header.goToCart();
   }
 
   /**
@@ -68,11 +167,7 @@ export class InventoryPage extends BasePage {
    * @returns The number of items in cart, or 0 if badge not visible
    */
   async getCartCount(): Promise<number> {
-    if (await this.cartBadge.isVisible()) {
-      const text = await this.cartBadge.textContent();
-      return parseInt(text || '0', 10);
-    }
-    return 0;
+    return this.header.getCartCount();
   }
 
   /**
@@ -80,11 +175,7 @@ export class InventoryPage extends BasePage {
    * @param expectedCount - The expected number of items in cart
    */
   async assertCartCount(expectedCount: number): Promise<void> {
-    if (expectedCount === 0) {
-      await expect(this.cartBadge).not.toBeVisible();
-    } else {
-      await expect(this.cartBadge).toHaveText(expectedCount.toString());
-    }
+    await this.header.assertCartCount(expectedCount);
   }
 
   /**
@@ -111,4 +202,123 @@ export class InventoryPage extends BasePage {
   async getInventoryItemCount(): Promise<number> {
     return await this.inventoryItems.count();
   }
+
+  /**
+   * Sort the product list using the sort dropdown
+   * @param option - The sort order to select
+   * @example await inventoryPage.sortBy(SortOption.PriceLowToHigh)
+   */
+  async sortBy(option: SortOption): Promise<void> {
+    await this.sortDropdown.selectOption(option);
+  }
+
+  /**
+   * Get the sort option currently shown as active
+   * @returns The active sort option
+   */
+  async getActiveSort(): Promise<SortOption> {
+    const label = (await this.activeSortOption.textContent() || '').trim();
+    const option = (Object.keys(SORT_LABELS) as SortOption[]).find((key) => SORT_LABELS[key] === label);
+    if (!option) {
+      throw new Error(`Unknown active sort option: "${label}"`);
+    }
+    return option;
+  }
+
+  /**
+   * Verify the displayed products are ordered according to a sort option
+   * Checks names for name sorts and prices for price sorts
+   * @param option - The expected sort order
+   */
+  async assertSortedBy(option: SortOption): Promise<void> {
+    await expect(this.activeSortOption).toHaveText(SORT_LABELS[option]);
+
+    if (option === SortOption.NameAToZ || option === SortOption.NameZToA) {
+      const names = await this.itemNames.allTextContents();
+      const expected = [...names].sort((a, b) => a.localeCompare(b));
+      if (option === SortOption.NameZToA) expected.reverse();
+      expect(names, `Product names are not sorted ${SORT_LABELS[option]}`).toEqual(expected);
+    } else {
+      const prices = (await this.itemPrices.allTextContents()).map(parseMoney);
+      const expected = [...prices].sort((a, b) => a - b);
+      if (option === SortOption.PriceHighToLow) expected.reverse();
+      expect(prices, `Product prices are not sorted ${SORT_LABELS[option]}`).toEqual(expected);
+    }
+  }
+
+  /**
+   * Read every product card on the page
+   * @returns Products in the order they are displayed
+   */
+  async getProducts(): Promise<Product[]> {
+    await this.inventoryItems.first().waitFor();
+    const products: Product[] = [];
+    for (const item of await this.inventoryItems.all()) {
+      products.push(await this.readProductCard(item));
+    }
+    return products;
+  }
+
+  /**
+   * Verify the rendered catalog contains exactly the expected products
+   * Products are matched by id; the failure message lists every differing field
+   * @param expected - The expected catalog
+   * @example await inventoryPage.assertCatalogMatches(Object.values(catalog))
+   */
+  async assertCatalogMatches(expected: Product[]): Promise<void> {
+    const actual = await this.getProducts();
+    const differences = this.diffProducts(expected, actual);
+    expect(differences, `Rendered catalog differs from expected:\n${differences.join('\n')}`).toEqual([]);
+  }
+
+  /**
+   * Scrape a single product card into a Product
+   * @param item - Locator for one .inventory_item
+   * @returns The product shown on the card
+   */
+  private async readProductCard(item: Locator): Promise<Product> {
+    const titleLinkId = await item.locator('.inventory_item_label a').getAttribute('id');
+    const imageSrc = await item.locator('img.inventory_item_img').getAttribute('src');
+    const price = await item.locator('.inventory_item_price').textContent();
+
+    return {
+      id: parseInt((titleLinkId || '').replace(/\D/g, ''), 10),
+      name: (await item.locator('.inventory_item_name').textContent() || '').trim(),
+      description: (await item.locator('.inventory_item_desc').textContent() || '').trim(),
+      price: parseMoney(price),
+      image: this.imageName(imageSrc),
+    };
+  }
+
+  /**
+   * Compare two product lists field by field
+   * @param expected - The expected products
+   * @param actual - The products found on the page
+   * @returns One readable line per difference, empty when the lists match
+   */
+  private diffProducts(expected: Product[], actual: Product[]): string[] {
+    const differences: string[] = [];
+    const fields: (keyof Product)[] = ['name', 'description', 'price', 'image'];
+
+    for (const product of expected) {
+      const match = actual.find((candidate) => candidate.id === product.id);
+      if (!match) {
+        differences.push(`[id ${product.id}] ${product.name}: missing from page`);
+        continue;
+      }
+      for (const field of fields) {
+        if (match[field] !== product[field]) {
+          differences.push(
+            `[id ${product.id}] ${product.name}: ${field} expected ${JSON.stringify(product[field])}, got ${JSON.stringify(match[field])}`
+          );
+        }
+      }
+    }
+    for (const product of actual) {
+      if (!expected.some((candidate) => candidate.id === product.id)) {
+        differences.push(`[id ${product.id}] ${product.name}: not in expected catalog`);
+      }
+    }
+    return differences;
+  }
 }
@@ -1,4 +1,4 @@
-import { BasePage } from './BasePage';
+import { BasePage, Route } from './BasePage';
 import { expect, Page } from '@playwright/test';
 
 /**
@@ -6,17 +6,27 @@ import { expect, Page } from '@playwright/test';
  * Handles authentication actions and error message validation
  */
 export class LoginPage extends BasePage {
+  static readonly routes = [Route.Login];
+
   // Locators using data-test attributes for stability
   readonly usernameField = this.page.locator('#user-name');
   readonly passwordField = this.page.locator('#password');
   readonly loginButton = this.page.locator('#login-button');
   readonly errorMessage = this.page.locator('[data-test="error"]');
   readonly errorButton = this.page.locator('.error-button');
+  readonly mainRegion = this.page.locator('.login_wrapper');
 
   constructor(page: Page) {
     super(page);
   }
 
+  /**
+   * Loaded once the login button is shown
+   */
+  async waitUntilLoaded(): Promise<void> {
+    await expect(this.loginButton).toBeVisible();
+  }
+
   /**
    * Perform login with provided credentials
    * @param username - Username for authentication
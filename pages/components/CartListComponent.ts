@@ -0,0 +1,48 @@
+import { Page, Locator } from '@playwright/test';
+import { parseMoney } from '../../utils/money';
+
+/**
+ * One row of the cart list
+ */
+export interface LineItem {
+  name: string;
+  description: string;
+  quantity: number;
+  price: number;
+}
+
+/**
+ * CartListComponent represents the list of cart rows
+ * Shared by the cart page and the checkout overview, which render the same rows
+ */
+export class CartListComponent {
+  readonly items = this.page.locator('.cart_item');
+
+  constructor(public page: Page) {}
+
+  /**
+   * Read every row of the list
+   * @returns Line items in the order they are displayed
+   */
+  async getItems(): Promise<LineItem[]> {
+    const lineItems: LineItem[] = [];
+    for (const item of await this.items.all()) {
+      lineItems.push(await this.readRow(item));
+    }
+    return lineItems;
+  }
+
+  /**
+   * Scrape a single cart row into a LineItem
+   * @param item - Locator for one .cart_item
+   * @returns The line item shown in the row
+   */
+  private async readRow(item: Locator): Promise<LineItem> {
+    return {
+      name: (await item.locator('.inventory_item_name').textContent() || '').trim(),
+      description: (await item.locator('.inventory_item_desc').textContent() || '').trim(),
+      quantity: parseInt(await item.locator('.cart_quantity').textContent() || '0', 10),
+      price: parseMoney(await item.locator('.inventory_item_price').textContent()),
+    };
+  }
+}
@@ -0,0 +1,110 @@
+import { Page, expect } from '@playwright/test';
+
+/**
+ * HeaderComponent represents the header shown on every logged-in page
+ * Owns the shopping cart link and badge and the burger side menu
+ */
+export class HeaderComponent {
+  // Shopping cart elements
+  readonly cartLink = this.page.locator('.shopping_cart_link');
+  readonly cartBadge = this.page.locator('.shopping_cart_badge');
+
+  // Burger menu elements
+  readonly menuButton = this.page.locator('#react-burger-menu-btn');
+  readonly closeMenuButton = this.page.locator('#react-burger-cross-btn');
+  readonly menu = this.page.locator('.bm-menu-wrap');
+  readonly allItemsLink = this.page.locator('#inventory_sidebar_link');
+  readonly aboutLink = this.page.locator('#about_sidebar_link');
+  readonly logoutLink = this.page.locator('#logout_sidebar_link');
+  readonly resetAppStateLink = this.page.locator('#reset_sidebar_link');
+
+  constructor(public page: Page) {}
+
+  /**
+   * Navigate to the shopping cart page
+   */
+  async goToCart(): Promise<void> {
+    await this.cartLink.click();
+  }
+
+  /**
+   * Get the current cart item count from the badge
+   * @returns The number of items in cart, or 0 if badge not visible
+   */
+  async getCartCount(): Promise<number> {
+    if (await this.cartBadge.isVisible()) {
+      const text = await this.cartBadge.textContent();
+      return parseInt(text || '0', 10);
+    }
+    return 0;
+  }
+
+  /**
+   * Verify the cart badge shows a specific count
+   * @param expectedCount - The expected number of items in cart
+   */
+  async assertCartCount(expectedCount: number): Promise<void> {
+    if (expectedCount === 0) {
+      await expect(this.cartBadge).not.toBeVisible();
+    } else {
+      await expect(this.cartBadge).toHaveText(expectedCount.toString());
+    }
+  }
+
+  /**
+   * Open the burger side menu
+   */
+  async openMenu(): Promise<void> {
+    await this.menuButton.click();
+    await expect(this.menu).toHaveAttribute('aria-hidden', 'false');
+  }
+
+  /**
+   * Close the burger side menu
+   */
+  async closeMenu(): Promise<void> {
+    await this.closeMenuButton.click();
+    await expect(this.menu).toHaveAttribute('aria-hidden', 'true');
+  }
+
+  /**
+   * Check if the burger side menu is open
+   * @returns True if the menu is open, false otherwise
+   */
+  async isMenuOpen(): Promise<boolean> {
+    return (await this.menu.getAttribute('aria-hidden')) === 'false';
+  }
+
+  /**
+   * Log out through the side menu (returns to the login page)
+   */
+  async logout(): Promise<void> {
+    await this.openMenu();
+    await this.logoutLink.click();
+  }
+
+  /**
+   * Reset app state through the side menu (empties the cart) and close the menu
+   */
+  async resetAppState(): Promise<void> {
+    await this.openMenu();
+    await this.resetAppStateLink.click();
+    await this.closeMenu();
+  }
+
+  /**
+   * Go to the inventory page through the side menu
+   */
+  async allItems(): Promise<void> {
+    await this.openMenu();
+    await this.allItemsLink.click();
+  }
+
+  /**
+   * Follow the About link in the side menu (leaves the shop for saucelabs.com)
+   */
+  async about(): Promise<void> {
+    await this.openMenu();
+    await this.aboutLink.click();
+  }
+}
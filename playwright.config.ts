@@ -1,14 +1,75 @@
 import { PlaywrightTestConfig, devices } from '@playwright/test';
+import type { PersonaOptions } from './fixtures/fixtures';
+import { users, shoppingPersonas } from './fixtures/testData';
+import { environment } from './fixtures/environment';
+import { HarOptions, harModeFromEnv } from './fixtures/har';
+
+/**
+ * Target selection
+ * TEST_ENV picks the environment profile (local, staging or production; see fixtures/environment.ts).
+ * Loading the profile fails here, before any test runs, when a password or URL is missing
+ */
+const { baseURL, timeouts } = environment;
+
+/**
+ * Network archives
+ * HAR_MODE=record saves each spec's traffic to har/<spec>.har; HAR_MODE=replay serves the whole
+ * run from those archives without touching the network and fails tests on unrecorded requests
+ * (see fixtures/har.ts)
+ */
+const harMode = harModeFromEnv();
+
+/**
+ * Persona matrix
+ * PERSONA_MATRIX=1 replaces the browser projects with one Chromium project per shopping
+ * persona running the inventory, cart, checkout, performance and visual suites; results are
+ * grouped by project name (e.g. "persona:problem_user") in every report
+ */
+const personaMatrix = !!process.env.PERSONA_MATRIX;
+
+/**
+ * Snapshot suites
+ * visual.spec.ts compares against baselines committed under tests/__screenshots__. Without them
+ * a run only writes fresh baselines and tests nothing, so outside the persona matrix the spec
+ * stays out of the default run until they are recorded; VISUAL_TESTS=1 (set by the npm scripts
+ * of the same name) opts in. structure.spec.ts always runs against the ARIA snapshots committed
+ * under tests/__aria__
+ */
+const snapshotSpecs = [{ spec: /visual\.spec\.ts/, enabled: !!process.env.VISUAL_TESTS || personaMatrix }];
+
+/**
+ * Visual baselines: one per page and browser, shared by all personas (see BasePage.assertMatchesBaseline)
+ * The persona matrix compares against the standard user's screenshots instead, recorded into
+ * playwright/.visual-reference by `npm run test:personas` just before the matrix runs
+ */
+const screenshotPathTemplate = personaMatrix
+  ? 'playwright/.visual-reference/{arg}{ext}'
+  : '{testDir}/__screenshots__/{arg}-{platform}{ext}';
+
+const personaProjects = shoppingPersonas.map((persona) => ({
+  name: `persona:${users[persona].username}`,
+  testMatch: /(inventory|cart|checkout|performance|visual)\.spec\.ts/,
+  use: { ...devices['Desktop Chrome'], persona },
+}));
 
 /**
  * Playwright Test Configuration
  * See https://playwright.dev/docs/test-configuration
  */
-const config: PlaywrightTestConfig = {
+const config: PlaywrightTestConfig<PersonaOptions & HarOptions> = {
   testDir: './tests',
+
+  // Snapshot suites that were not opted into (see snapshotSpecs)
+  testIgnore: snapshotSpecs.filter(({ enabled }) => !enabled).map(({ spec }) => spec),
+
+  // Log each persona in once and save its storage state (see global-setup.ts)
+  globalSetup: './global-setup.ts',
+
+  // Merge the recorded network archives (HAR_MODE=record, see global-teardown.ts)
+  globalTeardown: './global-teardown.ts',
   
   // Maximum time one test can run
-  timeout: 30000,
+  timeout: timeouts.test,
   
   // Run tests in files in parallel
   fullyParallel: true,
@@ -27,12 +88,28 @@ const config: PlaywrightTestConfig = {
     ['html', { outputFolder: 'playwright-report', open: 'never' }],
     ['list'],
     ['json', { outputFile: 'test-results/results.json' }],
+    ['./reporters/timingReporter.ts', { outputFile: 'test-results/timings.json' }],
   ],
 
+  // Visual baselines (see screenshotPathTemplate)
+  expect: {
+    timeout: timeouts.expect,
+    toHaveScreenshot: {
+      pathTemplate: screenshotPathTemplate,
+      maxDiffPixelRatio: 0.01,
+      animations: 'disabled',
+      caret: 'hide',
+    },
+    // Structure contracts: one ARIA snapshot per page (see BasePage.assertStructure)
+    toMatchAriaSnapshot: {
+      pathTemplate: '{testDir}/__aria__/{arg}{ext}',
+    },
+  },
+
   // Shared settings for all projects
   use: {
     // Base URL for navigation
-    baseURL: 'https://www.saucedemo.com/',
+    baseURL,
     
     // Collect trace on failure for debugging
     trace: 'retain-on-failure',
@@ -43,12 +120,19 @@ const config: PlaywrightTestConfig = {
     // Record video on failure
     video: 'retain-on-failure',
     
-    // Maximum time each action can take
-    actionTimeout: 10000,
+    // Maximum time each action and navigation can take
+    actionTimeout: timeouts.action,
+    navigationTimeout: timeouts.navigation,
+
+    // Start every test logged in as standard user (login.spec.ts opts out)
+    persona: 'standard',
+
+    // Record or replay network archives
+    harMode,
   },
 
-  // Configure projects for major browsers
-  projects: [
+  // Configure projects for major browsers, or the persona matrix
+  projects: personaMatrix ? personaProjects : [
     {
       name: 'chromium',
       use: { ...devices['Desktop Chrome'] },
@@ -72,11 +156,15 @@ const config: PlaywrightTestConfig = {
     // },
   ],
 
-  // Run local dev server before starting tests (optional)
-  // webServer: {
-  //   command: 'npm run start',
-  //   port: 3000,
-  // },
+  // Start the local SauceDemo stand-in when targeting it (not needed when replaying archives)
+  webServer: environment.startLocalServer && harMode !== 'replay'
+    ? {
+        command: 'npm run start',
+        url: baseURL,
+        reuseExistingServer: !process.env.CI,
+        timeout: 60000,
+      }
+    : undefined,
 };
 
 export default config;
\ No newline at end of file
@@ -0,0 +1,42 @@
+import type { Reporter, TestCase, TestResult } from '@playwright/test/reporter';
+import * as fs from 'fs';
+import * as path from 'path';
+import { TIMINGS_ATTACHMENT } from '../fixtures/PerformanceTracker';
+
+/**
+ * Collects the timings attached by the `perf` fixture into a single JSON report
+ * Workers run in separate processes, so the merge happens here in the runner.
+ * Written to test-results/timings.json by default, next to the JSON results.
+ * Every run writes the file, with an empty list when nothing was timed, so a
+ * report left over from an earlier run is never mistaken for this one
+ */
+class TimingReporter implements Reporter {
+  private readonly outputFile: string;
+  private readonly entries: object[] = [];
+
+  constructor(options: { outputFile?: string } = {}) {
+    this.outputFile = options.outputFile || 'test-results/timings.json';
+  }
+
+  onTestEnd(test: TestCase, result: TestResult): void {
+    const attachment = result.attachments.find((item) => item.name === TIMINGS_ATTACHMENT && item.body);
+    if (!attachment || !attachment.body) return;
+
+    const persona = test.annotations.find((annotation) => annotation.type === 'persona');
+    this.entries.push({
+      test: test.titlePath().filter(Boolean).join(' › '),
+      project: test.parent.project()?.name,
+      persona: persona?.description,
+      status: result.status,
+      retry: result.retry,
+      ...JSON.parse(attachment.body.toString('utf-8')),
+    });
+  }
+
+  onEnd(): void {
+    fs.mkdirSync(path.dirname(this.outputFile), { recursive: true });
+    fs.writeFileSync(this.outputFile, JSON.stringify(this.entries, null, 2));
+  }
+}
+
+export default TimingReporter;
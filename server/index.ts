@@ -0,0 +1,80 @@
+import * as http from 'http';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Local stand-in for saucedemo.com
+ * Serves a static copy of the shop so the suite can run without the public site.
+ * All routes of the real application render the same shell; the client script
+ * (public/app.js) decides what to draw from the URL, the session cookie and
+ * the cart stored in localStorage, just like the live site does.
+ *
+ * Start with `npm run start` (PORT defaults to 3000)
+ */
+
+const PORT = Number(process.env.PORT || 3000);
+const PUBLIC_DIR = path.join(__dirname, 'public');
+
+/**
+ * Application routes that render the single-page shell
+ */
+const APP_ROUTES = [
+  '/',
+  '/inventory.html',
+  '/inventory-item.html',
+  '/cart.html',
+  '/checkout-step-one.html',
+  '/checkout-step-two.html',
+  '/checkout-complete.html',
+];
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'application/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.svg': 'image/svg+xml',
+  '.ico': 'image/x-icon',
+};
+
+/**
+ * Resolve a request path to a file inside the public directory
+ * @param pathname - The URL pathname of the request
+ * @returns Absolute file path, or null if the path escapes the public directory
+ * @throws URIError if the path contains malformed percent-encoding
+ */
+function resolveFile(pathname: string): string | null {
+  if (APP_ROUTES.includes(pathname)) {
+    return path.join(PUBLIC_DIR, 'index.html');
+  }
+  const filePath = path.normalize(path.join(PUBLIC_DIR, decodeURIComponent(pathname)));
+  return filePath.startsWith(PUBLIC_DIR + path.sep) ? filePath : null;
+}
+
+const server = http.createServer((req, res) => {
+  const { pathname } = new URL(req.url || '/', `http://localhost:${PORT}`);
+  let filePath: string | null;
+  try {
+    filePath = resolveFile(pathname);
+  } catch (error) {
+    if (!(error instanceof URIError)) throw error;
+    res.writeHead(400, { 'Content-Type': 'text/plain; charset=utf-8' });
+    res.end(`Bad request: ${pathname}`);
+    return;
+  }
+
+  if (!filePath || !fs.existsSync(filePath) || !fs.statSync(filePath).isFile()) {
+    res.writeHead(404, { 'Content-Type': 'text/plain; charset=utf-8' });
+    res.end(`Not found: ${pathname}`);
+    return;
+  }
+
+  res.writeHead(200, {
+    'Content-Type': CONTENT_TYPES[path.extname(filePath)] || 'application/octet-stream',
+    'Cache-Control': 'no-store',
+  });
+  fs.createReadStream(filePath).pipe(res);
+});
+
+server.listen(PORT, () => {
+  console.log(`SauceDemo stand-in running at http://localhost:${PORT}/`);
+});
@@ -0,0 +1,699 @@
+// Swag Labs stand-in
+// Mirrors the routes, markup and persona quirks of https://www.saucedemo.com/
+// closely enough for the page objects in /pages to run unchanged.
+
+const PASSWORD = 'secret_sauce';
+const SESSION_COOKIE = 'session-username';
+const CART_KEY = 'cart-contents';
+const GLITCH_DELAY_MS = 3000;
+
+const ACCEPTED_USERS = [
+    'standard_user',
+    'locked_out_user',
+    'problem_user',
+    'performance_glitch_user',
+    'error_user',
+    'visual_user',
+];
+
+const PRODUCTS = [
+    {
+        id: 0,
+        name: 'Sauce Labs Bike Light',
+        description: "A red light isn't the desired state in testing but it sure helps when riding your bike at night. Water-resistant with 3 lighting modes, 1 AAA battery included.",
+        price: 9.99,
+        image: 'bike-light-1200x1500',
+    },
+    {
+        id: 1,
+        name: 'Sauce Labs Bolt T-Shirt',
+        description: 'Get your testing superhero on with the Sauce Labs bolt T-shirt. From American Apparel, 100% ringspun combed cotton, heather gray with red bolt.',
+        price: 15.99,
+        image: 'bolt-shirt-1200x1500',
+    },
+    {
+        id: 2,
+        name: 'Sauce Labs Onesie',
+        description: "Rib snap infant onesie for the junior automation engineer in development. Reinforced 3-snap bottom closure, two-needle hemmed sleeved and bottom won't unravel.",
+        price: 7.99,
+        image: 'red-onesie-1200x1500',
+    },
+    {
+        id: 3,
+        name: 'Test.allTheThings() T-Shirt (Red)',
+        description: 'This classic Sauce Labs t-shirt is perfect to wear when cooking up a batch of hot sauce. Super-soft and comfy ringspun combed cotton.',
+        price: 15.99,
+        image: 'red-tatt-1200x1500',
+    },
+    {
+        id: 4,
+        name: 'Sauce Labs Backpack',
+        description: 'carry.allTheThings() with the sleek, streamlined Sly Pack that melds uncompromising style with unequaled laptop and tablet protection.',
+        price: 29.99,
+        image: 'sauce-backpack-1200x1500',
+    },
+    {
+        id: 5,
+        name: 'Sauce Labs Fleece Jacket',
+        description: "It's not every day that you come across a midweight quarter-zip fleece jacket capable of handling everything from a relaxing day outdoors to a busy day at the office.",
+        price: 49.99,
+        image: 'sauce-pullover-1200x1500',
+    },
+];
+
+const SORT_OPTIONS = [
+    { value: 'az', label: 'Name (A to Z)' },
+    { value: 'za', label: 'Name (Z to A)' },
+    { value: 'lohi', label: 'Price (low to high)' },
+    { value: 'hilo', label: 'Price (high to low)' },
+];
+
+const PROTECTED_ROUTES = [
+    '/inventory.html',
+    '/inventory-item.html',
+    '/cart.html',
+    '/checkout-step-one.html',
+    '/checkout-step-two.html',
+    '/checkout-complete.html',
+];
+
+const root = document.getElementById('root');
+
+// ---------------------------------------------------------------------------
+// Session and cart state
+// ---------------------------------------------------------------------------
+
+function getUser() {
+    const match = document.cookie.match(new RegExp('(?:^|; )' + SESSION_COOKIE + '=([^;]*)'));
+    return match ? decodeURIComponent(match[1]) : null;
+}
+
+function setUser(username) {
+    document.cookie = `${SESSION_COOKIE}=${encodeURIComponent(username)}; path=/; max-age=600`;
+}
+
+function clearUser() {
+    document.cookie = `${SESSION_COOKIE}=; path=/; max-age=0`;
+}
+
+function getCart() {
+    try {
+        const ids = JSON.parse(localStorage.getItem(CART_KEY) || '[]');
+        return Array.isArray(ids) ? ids.filter((id) => findProduct(id)) : [];
+    } catch (e) {
+        return [];
+    }
+}
+
+function setCart(ids) {
+    if (ids.length === 0) {
+        localStorage.removeItem(CART_KEY);
+    } else {
+        localStorage.setItem(CART_KEY, JSON.stringify(ids));
+    }
+}
+
+function findProduct(id) {
+    return PRODUCTS.find((product) => product.id === Number(id));
+}
+
+// ---------------------------------------------------------------------------
+// Persona quirks
+// ---------------------------------------------------------------------------
+
+const quirks = {
+    // problem_user: broken images, buttons, links, sorting and last name field
+    // error_user: buttons and sorting that throw, last name that can't be typed, finish that fails
+    // visual_user: wrong image, random prices and misaligned elements
+    brokenImages: () => getUser() === 'problem_user',
+    wrongImage: (product) => getUser() === 'visual_user' && product.id === 4,
+    randomPrices: () => getUser() === 'visual_user',
+    misaligned: () => getUser() === 'visual_user',
+    brokenSort: () => getUser() === 'problem_user',
+    sortAlert: () => getUser() === 'error_user',
+    brokenLastName: () => getUser() === 'problem_user',
+    lockedLastName: () => getUser() === 'error_user',
+    brokenFinish: () => getUser() === 'error_user',
+    itemLinkOffset: () => (getUser() === 'problem_user' ? 1 : 0),
+    canAdd: (id) => cartQuirk(id, [1, 3, 5], 'Failed to add item to the cart.'),
+    canRemoveFromInventory: (id) => cartQuirk(id, [0, 2, 4], 'Failed to remove item from cart.'),
+    // performance_glitch_user: login hangs before reaching the inventory
+    glitchDelay: () => (getUser() === 'performance_glitch_user' ? GLITCH_DELAY_MS : 0),
+};
+
+// Cart buttons for the given ids do nothing for problem_user and throw for error_user
+function cartQuirk(id, brokenIds, errorMessage) {
+    if (!brokenIds.includes(id)) return true;
+    if (getUser() === 'error_user') throw new Error(errorMessage);
+    return getUser() !== 'problem_user';
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function escapeHtml(text) {
+    return String(text)
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+function slug(name) {
+    return name.replace(/\s+/g, '-').toLowerCase();
+}
+
+function formatPrice(value) {
+    return `$${value.toFixed(2)}`;
+}
+
+function imageSrc(product) {
+    const name = quirks.brokenImages() || quirks.wrongImage(product) ? 'sl-404' : product.image;
+    return `/static/media/${name}.svg`;
+}
+
+function go(path) {
+    window.location.assign(path);
+}
+
+function cartButton(product, inCart, testIdSuffix) {
+    const action = inCart ? 'remove' : 'add-to-cart';
+    const testId = testIdSuffix ? `${action}-${testIdSuffix}` : action;
+    const cls = inCart ? 'btn_secondary' : 'btn_primary';
+    return `<button class="btn ${cls} btn_small btn_inventory" data-test="${escapeHtml(testId)}" id="${escapeHtml(testId)}" name="${escapeHtml(testId)}" data-id="${product.id}">${inCart ? 'Remove' : 'Add to cart'}</button>`;
+}
+
+function updateBadge() {
+    const link = document.querySelector('.shopping_cart_link');
+    if (!link) return;
+    const count = getCart().length;
+    const badge = link.querySelector('.shopping_cart_badge');
+    if (count === 0) {
+        if (badge) badge.remove();
+    } else if (badge) {
+        badge.textContent = String(count);
+    } else {
+        link.insertAdjacentHTML('beforeend', `<span class="shopping_cart_badge" data-test="shopping-cart-badge">${count}</span>`);
+    }
+}
+
+// ---------------------------------------------------------------------------
+// Shared layout: header, burger menu and footer
+// ---------------------------------------------------------------------------
+
+function header(title, secondaryExtra) {
+    const count = getCart().length;
+    return `
+        <div class="bm-menu-wrap" aria-hidden="true" hidden>
+            <nav class="bm-item-list">
+                <a id="inventory_sidebar_link" class="bm-item menu-item" data-test="inventory-sidebar-link" href="/inventory.html">All Items</a>
+                <a id="about_sidebar_link" class="bm-item menu-item" data-test="about-sidebar-link" href="https://saucelabs.com/">About</a>
+                <a id="logout_sidebar_link" class="bm-item menu-item" data-test="logout-sidebar-link" href="#">Logout</a>
+                <a id="reset_sidebar_link" class="bm-item menu-item" data-test="reset-sidebar-link" href="#">Reset App State</a>
+            </nav>
+            <div class="bm-cross-button">
+                <button type="button" id="react-burger-cross-btn" data-test="close-menu">Close Menu</button>
+            </div>
+        </div>
+        <div class="primary_header" data-test="primary-header">
+            <div id="menu_button_container">
+                <div class="bm-burger-button">
+                    <button type="button" id="react-burger-menu-btn">Open Menu</button>
+                </div>
+            </div>
+            <div class="header_label"><div class="app_logo">Swag Labs</div></div>
+            <div id="shopping_cart_container" class="shopping_cart_container${quirks.misaligned() ? ' visual_failure' : ''}">
+                <a class="shopping_cart_link" data-test="shopping-cart-link" href="/cart.html">${count > 0 ? `<span class="shopping_cart_badge" data-test="shopping-cart-badge">${count}</span>` : ''}</a>
+            </div>
+        </div>
+        <div class="header_secondary_container" data-test="secondary-header">
+            <span class="title" data-test="title">${escapeHtml(title)}</span>
+            ${secondaryExtra || ''}
+        </div>`;
+}
+
+function footer() {
+    return `
+        <footer class="footer" data-test="footer">
+            <div class="footer_copy" data-test="footer-copy">© 2025 Sauce Labs. All Rights Reserved. Terms of Service | Privacy Policy</div>
+        </footer>`;
+}
+
+function page(title, body, secondaryExtra) {
+    root.innerHTML = `
+        <div id="page_wrapper" class="page_wrapper">
+            <div id="contents_wrapper">
+                ${header(title, secondaryExtra)}
+                <div id="inventory_container" class="inventory_container_wrapper">${body}</div>
+            </div>
+            ${footer()}
+        </div>`;
+    bindMenu();
+}
+
+function bindMenu() {
+    const menu = document.querySelector('.bm-menu-wrap');
+    const setOpen = (open) => {
+        menu.hidden = !open;
+        menu.setAttribute('aria-hidden', String(!open));
+    };
+    document.getElementById('react-burger-menu-btn').addEventListener('click', () => setOpen(true));
+    document.getElementById('react-burger-cross-btn').addEventListener('click', () => setOpen(false));
+    document.getElementById('logout_sidebar_link').addEventListener('click', (event) => {
+        event.preventDefault();
+        clearUser();
+        go('/');
+    });
+    document.getElementById('reset_sidebar_link').addEventListener('click', (event) => {
+        event.preventDefault();
+        setCart([]);
+        updateBadge();
+    });
+}
+
+function errorBox(message) {
+    return `
+        <div class="error-message-container error">
+            <h3 data-test="error">${escapeHtml(message)}<button class="error-button" data-test="error-button" type="button"><svg width="10" height="10" viewBox="0 0 10 10" aria-hidden="true"><path d="M1 1l8 8M9 1l-8 8" stroke="currentColor" stroke-width="2"/></svg></button></h3>
+        </div>`;
+}
+
+function bindErrorDismiss(container) {
+    const button = container.querySelector('.error-button');
+    if (button) {
+        button.addEventListener('click', () => {
+            container.innerHTML = '<div class="error-message-container"></div>';
+        });
+    }
+}
+
+// ---------------------------------------------------------------------------
+// Login
+// ---------------------------------------------------------------------------
+
+function renderLogin(initialError) {
+    root.innerHTML = `
+        <div class="login_container">
+            <div class="login_logo">Swag Labs</div>
+            <div class="login_wrapper">
+                <div class="login_wrapper-inner">
+                    <div id="login_button_container" class="form_column">
+                        <div class="login-box">
+                            <form id="login-form" novalidate>
+                                <div class="form_group">
+                                    <input class="input_error form_input" placeholder="Username" type="text" data-test="username" id="user-name" name="user-name" autocorrect="off" autocapitalize="none">
+                                </div>
+                                <div class="form_group">
+                                    <input class="input_error form_input" placeholder="Password" type="password" data-test="password" id="password" name="password" autocorrect="off" autocapitalize="none">
+                                </div>
+                                <div id="login-error"><div class="error-message-container"></div></div>
+                                <input type="submit" class="submit-button btn_action" data-test="login-button" id="login-button" name="login-button" value="Login">
+                            </form>
+                        </div>
+                    </div>
+                </div>
+                <div class="login_credentials_wrap">
+                    <div class="login_credentials_wrap-inner">
+                        <div id="login_credentials" class="login_credentials" data-test="login-credentials">
+                            <h4>Accepted usernames are:</h4>${ACCEPTED_USERS.join('<br>')}
+                        </div>
+                        <div class="login_password" data-test="login-password">
+                            <h4>Password for all users:</h4>${PASSWORD}
+                        </div>
+                    </div>
+                </div>
+            </div>
+        </div>`;
+
+    const errorContainer = document.getElementById('login-error');
+    const showError = (message) => {
+        errorContainer.innerHTML = errorBox(message);
+        bindErrorDismiss(errorContainer);
+    };
+    if (initialError) showError(initialError);
+
+    document.getElementById('login-form').addEventListener('submit', (event) => {
+        event.preventDefault();
+        const username = document.getElementById('user-name').value;
+        const password = document.getElementById('password').value;
+
+        if (!username) return showError('Epic sadface: Username is required');
+        if (!password) return showError('Epic sadface: Password is required');
+        if (!ACCEPTED_USERS.includes(username) || password !== PASSWORD) {
+            return showError('Epic sadface: Username and password do not match any user in this service');
+        }
+        if (username === 'locked_out_user') {
+            return showError('Epic sadface: Sorry, this user has been locked out.');
+        }
+
+        setUser(username);
+        setTimeout(() => go('/inventory.html'), quirks.glitchDelay());
+    });
+}
+
+// ---------------------------------------------------------------------------
+// Inventory
+// ---------------------------------------------------------------------------
+
+function sortProducts(products, option) {
+    const sorted = products.slice();
+    switch (option) {
+        case 'za':
+            return sorted.sort((a, b) => b.name.localeCompare(a.name));
+        case 'lohi':
+            return sorted.sort((a, b) => a.price - b.price);
+        case 'hilo':
+            return sorted.sort((a, b) => b.price - a.price);
+        default:
+            return sorted.sort((a, b) => a.name.localeCompare(b.name));
+    }
+}
+
+function inventoryCard(product, cart) {
+    const linkId = product.id + quirks.itemLinkOffset();
+    const price = quirks.randomPrices() ? Math.round(Math.random() * 10000) / 100 : product.price;
+    return `
+        <div class="inventory_item" data-test="inventory-item">
+            <div class="inventory_item_img">
+                <a href="/inventory-item.html?id=${linkId}" id="item_${product.id}_img_link" data-test="item-${product.id}-img-link">
+                    <img alt="${escapeHtml(product.name)}" class="inventory_item_img" src="${imageSrc(product)}" data-test="inventory-item-${escapeHtml(slug(product.name))}-img">
+                </a>
+            </div>
+            <div class="inventory_item_description" data-test="inventory-item-description">
+                <div class="inventory_item_label">
+                    <a href="/inventory-item.html?id=${linkId}" id="item_${product.id}_title_link" data-test="item-${product.id}-title-link">
+                        <div class="inventory_item_name" data-test="inventory-item-name">${escapeHtml(product.name)}</div>
+                    </a>
+                    <div class="inventory_item_desc" data-test="inventory-item-desc">${escapeHtml(product.description)}</div>
+                </div>
+                <div class="pricebar">
+                    <div class="inventory_item_price" data-test="inventory-item-price">${formatPrice(price)}</div>
+                    ${cartButton(product, cart.includes(product.id), slug(product.name))}
+                </div>
+            </div>
+        </div>`;
+}
+
+function renderInventory() {
+    let sortOption = 'az';
+    const sortControl = `
+        <div class="right_component">
+            <span class="select_container">
+                <span class="active_option" data-test="active-option">${SORT_OPTIONS[0].label}</span>
+                <select class="product_sort_container" data-test="product-sort-container">
+                    ${SORT_OPTIONS.map((option) => `<option value="${option.value}">${option.label}</option>`).join('')}
+                </select>
+            </span>
+        </div>`;
+
+    page('Products', '<div class="inventory_container"><div class="inventory_list" data-test="inventory-list"></div></div>', sortControl);
+
+    const list = document.querySelector('.inventory_list');
+    const draw = () => {
+        const cart = getCart();
+        list.innerHTML = sortProducts(PRODUCTS, sortOption).map((product) => inventoryCard(product, cart)).join('');
+    };
+    draw();
+
+    document.querySelector('.product_sort_container').addEventListener('change', (event) => {
+        const option = SORT_OPTIONS.find((candidate) => candidate.value === event.target.value);
+        if (quirks.sortAlert()) {
+            window.alert('Sorting is broken! This error has been reported to Backtrace.');
+            return;
+        }
+        document.querySelector('.active_option').textContent = option.label;
+        if (quirks.brokenSort()) return;
+        sortOption = option.value;
+        draw();
+    });
+
+    list.addEventListener('click', (event) => {
+        const button = event.target.closest('button.btn_inventory');
+        if (!button) return;
+        const id = Number(button.dataset.id);
+        const cart = getCart();
+        if (cart.includes(id)) {
+            if (!quirks.canRemoveFromInventory(id)) return;
+            setCart(cart.filter((item) => item !== id));
+        } else {
+            if (!quirks.canAdd(id)) return;
+            setCart(cart.concat(id));
+        }
+        const product = findProduct(id);
+        button.outerHTML = cartButton(product, getCart().includes(id), slug(product.name));
+        updateBadge();
+    });
+}
+
+// ---------------------------------------------------------------------------
+// Inventory item detail
+// ---------------------------------------------------------------------------
+
+function renderInventoryItem() {
+    const id = new URLSearchParams(window.location.search).get('id');
+    const product = id === null ? undefined : findProduct(id);
+    const back = '<button class="btn btn_secondary back btn_large inventory_details_back_button" data-test="back-to-products" id="back-to-products" name="back-to-products">Back to products</button>';
+
+    if (!product) {
+        page('', `
+            <div class="inventory_details" data-test="inventory-container">
+                <div class="inventory_details_container">
+                    <div class="inventory_details_desc_container">
+                        <div class="inventory_details_name large_size" data-test="inventory-item-name">ITEM NOT FOUND</div>
+                        <div class="inventory_details_desc large_size" data-test="inventory-item-desc">We're sorry, but your call could not be completed as dialled. Please check your number, and try your call again. If you are in need of help, please dial the operator.</div>
+                    </div>
+                </div>
+            </div>`, back);
+    } else {
+        page('', `
+            <div class="inventory_details" data-test="inventory-container">
+                <div class="inventory_details_container" data-test="inventory-item">
+                    <div class="inventory_details_img_container">
+                        <img alt="${escapeHtml(product.name)}" class="inventory_details_img" src="${imageSrc(product)}" data-test="item-${escapeHtml(slug(product.name))}-img">
+                    </div>
+                    <div class="inventory_details_desc_container">
+                        <div class="inventory_details_name large_size" data-test="inventory-item-name">${escapeHtml(product.name)}</div>
+                        <div class="inventory_details_desc large_size" data-test="inventory-item-desc">${escapeHtml(product.description)}</div>
+                        <div class="inventory_details_price" data-test="inventory-item-price">${formatPrice(product.price)}</div>
+                        <span class="cart-button">${cartButton(product, getCart().includes(product.id))}</span>
+                    </div>
+                </div>
+            </div>`, back);
+
+        document.querySelector('.cart-button').addEventListener('click', (event) => {
+            const button = event.target.closest('button.btn_inventory');
+            if (!button) return;
+            const cart = getCart();
+            if (cart.includes(product.id)) {
+                setCart(cart.filter((item) => item !== product.id));
+            } else {
+                if (!quirks.canAdd(product.id)) return;
+                setCart(cart.concat(product.id));
+            }
+            button.outerHTML = cartButton(product, getCart().includes(product.id));
+            updateBadge();
+        });
+    }
+
+    document.getElementById('back-to-products').addEventListener('click', () => go('/inventory.html'));
+}
+
+// ---------------------------------------------------------------------------
+// Cart and checkout overview shared line items
+// ---------------------------------------------------------------------------
+
+function cartLine(product, withRemove) {
+    return `
+        <div class="cart_item" data-test="inventory-item">
+            <div class="cart_quantity" data-test="item-quantity">1</div>
+            <div class="cart_item_label">
+                <a href="/inventory-item.html?id=${product.id}" id="item_${product.id}_title_link" data-test="item-${product.id}-title-link">
+                    <div class="inventory_item_name" data-test="inventory-item-name">${escapeHtml(product.name)}</div>
+                </a>
+                <div class="inventory_item_desc" data-test="inventory-item-desc">${escapeHtml(product.description)}</div>
+                <div class="item_pricebar">
+                    <div class="inventory_item_price" data-test="inventory-item-price">${formatPrice(product.price)}</div>
+                    ${withRemove ? cartButton(product, true, slug(product.name)) : ''}
+                </div>
+            </div>
+        </div>`;
+}
+
+function cartList(withRemove) {
+    return `
+        <div class="cart_list" data-test="cart-list">
+            <div class="cart_quantity_label" data-test="cart-quantity-label">QTY</div>
+            <div class="cart_desc_label" data-test="cart-desc-label">Description</div>
+            ${getCart().map((id) => cartLine(findProduct(id), withRemove)).join('')}
+        </div>`;
+}
+
+// ---------------------------------------------------------------------------
+// Cart
+// ---------------------------------------------------------------------------
+
+function renderCart() {
+    page('Your Cart', `
+        <div id="cart_contents_container" class="cart_contents_container" data-test="cart-contents-container">
+            ${cartList(true)}
+            <div class="cart_footer">
+                <button class="btn btn_secondary back btn_medium" data-test="continue-shopping" id="continue-shopping" name="continue-shopping">Continue Shopping</button>
+                <button class="btn btn_action btn_medium checkout_button${quirks.misaligned() ? ' btn_visual_failure' : ''}" data-test="checkout" id="checkout" name="checkout">Checkout</button>
+            </div>
+        </div>`);
+
+    document.querySelector('.cart_list').addEventListener('click', (event) => {
+        const button = event.target.closest('button.btn_inventory');
+        if (!button) return;
+        const id = Number(button.dataset.id);
+        setCart(getCart().filter((item) => item !== id));
+        button.closest('.cart_item').remove();
+        updateBadge();
+    });
+    document.getElementById('continue-shopping').addEventListener('click', () => go('/inventory.html'));
+    document.getElementById('checkout').addEventListener('click', () => go('/checkout-step-one.html'));
+}
+
+// ---------------------------------------------------------------------------
+// Checkout step one: customer information
+// ---------------------------------------------------------------------------
+
+function renderCheckoutStepOne() {
+    page('Checkout: Your Information', `
+        <div class="checkout_info_container" data-test="checkout-info-container">
+            <div class="checkout_info_wrapper">
+                <form id="checkout-form" novalidate>
+                    <div class="checkout_info" data-test="checkout-info">
+                        <div class="form_group"><input class="input_error form_input" placeholder="First Name" type="text" data-test="firstName" id="first-name" name="firstName" autocorrect="off" autocapitalize="none"></div>
+                        <div class="form_group"><input class="input_error form_input" placeholder="Last Name" type="text" data-test="lastName" id="last-name" name="lastName" autocorrect="off" autocapitalize="none"></div>
+                        <div class="form_group"><input class="input_error form_input" placeholder="Zip/Postal Code" type="text" data-test="postalCode" id="postal-code" name="postalCode" autocorrect="off" autocapitalize="none"></div>
+                        <div id="checkout-error"><div class="error-message-container"></div></div>
+                    </div>
+                    <div class="checkout_buttons">
+                        <button type="button" class="btn btn_secondary back btn_medium cart_cancel_link" data-test="cancel" id="cancel" name="cancel">Cancel</button>
+                        <input type="submit" class="submit-button btn btn_primary cart_button btn_action" data-test="continue" id="continue" name="continue" value="Continue">
+                    </div>
+                </form>
+            </div>
+        </div>`);
+
+    const firstName = document.getElementById('first-name');
+    const lastName = document.getElementById('last-name');
+    const postalCode = document.getElementById('postal-code');
+    const errorContainer = document.getElementById('checkout-error');
+
+    if (quirks.lockedLastName()) {
+        // The last name field refuses any input
+        lastName.addEventListener('input', () => {
+            lastName.value = '';
+        });
+    }
+
+    if (quirks.brokenLastName()) {
+        // Typing into the last name field overwrites the first name instead
+        lastName.addEventListener('input', () => {
+            firstName.value = lastName.value.slice(-1);
+            lastName.value = '';
+        });
+    }
+
+    document.getElementById('cancel').addEventListener('click', () => go('/cart.html'));
+    document.getElementById('checkout-form').addEventListener('submit', (event) => {
+        event.preventDefault();
+        let message = '';
+        if (!firstName.value) message = 'Error: First Name is required';
+        else if (!lastName.value) message = 'Error: Last Name is required';
+        else if (!postalCode.value) message = 'Error: Postal Code is required';
+
+        if (message) {
+            errorContainer.innerHTML = errorBox(message);
+            bindErrorDismiss(errorContainer);
+            return;
+        }
+        go('/checkout-step-two.html');
+    });
+}
+
+// ---------------------------------------------------------------------------
+// Checkout step two: overview
+// ---------------------------------------------------------------------------
+
+function renderCheckoutStepTwo() {
+    const subtotal = getCart().reduce((sum, id) => sum + findProduct(id).price, 0);
+    const tax = Math.round(subtotal * 0.08 * 100) / 100;
+    const total = subtotal + tax;
+
+    page('Checkout: Overview', `
+        <div id="checkout_summary_container" class="checkout_summary_container" data-test="checkout-summary-container">
+            ${cartList(false)}
+            <div class="summary_info">
+                <div class="summary_info_label" data-test="payment-info-label">Payment Information:</div>
+                <div class="summary_value_label" data-test="payment-info-value">SauceCard #31337</div>
+                <div class="summary_info_label" data-test="shipping-info-label">Shipping Information:</div>
+                <div class="summary_value_label" data-test="shipping-info-value">Free Pony Express Delivery!</div>
+                <div class="summary_info_label" data-test="total-info-label">Price Total</div>
+                <div class="summary_subtotal_label" data-test="subtotal-label">Item total: ${formatPrice(subtotal)}</div>
+                <div class="summary_tax_label" data-test="tax-label">Tax: ${formatPrice(tax)}</div>
+                <div class="summary_info_label summary_total_label" data-test="total-label">Total: ${formatPrice(total)}</div>
+                <div class="cart_footer">
+                    <button class="btn btn_secondary back btn_medium cart_cancel_link" data-test="cancel" id="cancel" name="cancel">Cancel</button>
+                    <button class="btn btn_action btn_medium cart_button" data-test="finish" id="finish" name="finish">Finish</button>
+                </div>
+            </div>
+        </div>`);
+
+    document.getElementById('cancel').addEventListener('click', () => go('/inventory.html'));
+    document.getElementById('finish').addEventListener('click', () => {
+        if (quirks.brokenFinish()) {
+            throw new Error('Cannot read properties of undefined (reading \'finish\')');
+        }
+        setCart([]);
+        go('/checkout-complete.html');
+    });
+}
+
+// ---------------------------------------------------------------------------
+// Checkout complete
+// ---------------------------------------------------------------------------
+
+function renderCheckoutComplete() {
+    page('Checkout: Complete!', `
+        <div id="checkout_complete_container" class="checkout_complete_container" data-test="checkout-complete-container">
+            <img alt="Pony Express" class="pony_express" src="/static/media/pony-express.svg" data-test="pony-express">
+            <h2 class="complete-header" data-test="complete-header">Thank you for your order!</h2>
+            <div class="complete-text" data-test="complete-text">Your order has been dispatched, and will arrive just as fast as the pony can get there!</div>
+            <button class="btn btn_primary btn_small" data-test="back-to-products" id="back-to-products" name="back-to-products">Back Home</button>
+        </div>`);
+
+    document.getElementById('back-to-products').addEventListener('click', () => go('/inventory.html'));
+}
+
+// ---------------------------------------------------------------------------
+// Router
+// ---------------------------------------------------------------------------
+
+const ROUTES = {
+    '/': () => renderLogin(),
+    '/inventory.html': renderInventory,
+    '/inventory-item.html': renderInventoryItem,
+    '/cart.html': renderCart,
+    '/checkout-step-one.html': renderCheckoutStepOne,
+    '/checkout-step-two.html': renderCheckoutStepTwo,
+    '/checkout-complete.html': renderCheckoutComplete,
+};
+
+function start() {
+    const path = window.location.pathname;
+
+    if (PROTECTED_ROUTES.includes(path) && !getUser()) {
+        window.history.replaceState(null, '', '/');
+        renderLogin(`Epic sadface: You can only access '${path}' when you are logged in.`);
+        return;
+    }
+
+    (ROUTES[path] || ROUTES['/'])();
+}
+
+start();
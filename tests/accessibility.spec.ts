@@ -0,0 +1,81 @@
+import { test } from '../fixtures/fixtures';
+import { users, customerInfo, products } from '../fixtures/testData';
+
+/**
+ * Accessibility Test Suite
+ * Audits every page for labels, alt text, button names and duplicate ids
+ * Known site issues are allowlisted in fixtures/accessibilityAllowlist.ts; each audit is attached to the report
+ */
+
+test.describe('Accessibility (logged out)', () => {
+  test.use({ persona: null });
+
+  test('Login page is accessible', async ({ loginPage }) => {
+    // Arrange: Open the login page
+    await loginPage.goto();
+
+    // Assert: Login form should have no unexpected violations
+    await loginPage.assertAccessible();
+  });
+
+  test('Login page with error is accessible', async ({ loginPage }) => {
+    // Arrange: Trigger the login error
+    await loginPage.goto();
+    await loginPage.login(users.locked.username, users.locked.password);
+    await loginPage.assertLoginError();
+
+    // Assert: Error banner should have no unexpected violations
+    await loginPage.assertAccessible();
+  });
+});
+
+test.describe('Accessibility', () => {
+  test('Inventory page is accessible', async ({ inventoryPage }) => {
+    // Assert: Inventory should have no unexpected violations
+    await inventoryPage.assertAccessible();
+  });
+
+  test('Product detail page is accessible', async ({ inventoryPage, inventoryItemPage }) => {
+    // Arrange: Open a product
+    await inventoryPage.openProductByTitle(products.backpack);
+
+    // Assert: Detail page should have no unexpected violations
+    await inventoryItemPage.assertAccessible();
+  });
+
+  test('Open menu is accessible', async ({ inventoryPage }) => {
+    // Arrange: Open the burger menu
+    await inventoryPage.header.openMenu();
+
+    // Assert: Menu links and buttons should have no unexpected violations
+    await inventoryPage.assertAccessible();
+  });
+
+  test('Cart page is accessible', async ({ cartSeeder }) => {
+    // Arrange: Seed the cart and open it
+    const cartPage = await cartSeeder.openCart(['backpack', 'bikeLight']);
+
+    // Assert: Cart should have no unexpected violations
+    await cartPage.assertAccessible();
+  });
+
+  test('Checkout steps are accessible', async ({ cartSeeder }) => {
+    // Arrange: Seed the cart and start checkout
+    const checkoutPage = await cartSeeder.openCheckout(['backpack']);
+
+    // Assert: Information form should have no unexpected violations
+    await checkoutPage.assertAccessible();
+
+    // Act: Continue to the overview
+    await checkoutPage.fillCustomerInfo(customerInfo.valid.firstName, customerInfo.valid.lastName, customerInfo.valid.postalCode);
+
+    // Assert: Overview should have no unexpected violations
+    await checkoutPage.assertAccessible();
+
+    // Act: Complete the order
+    await checkoutPage.finishOrder();
+
+    // Assert: Confirmation should have no unexpected violations
+    await checkoutPage.assertAccessible();
+  });
+});
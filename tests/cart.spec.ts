@@ -1,8 +1,6 @@
-import { test, expect } from '@playwright/test';
-import { LoginPage } from '../pages/LoginPage';
+import { test, expect } from '../fixtures/fixtures';
 import { InventoryPage } from '../pages/InventoryPage';
-import { CartPage } from '../pages/CartPage';
-import { users, products } from '../fixtures/testData';
+import { products } from '../fixtures/testData';
 
 /**
  * Shopping Cart Test Suite
@@ -10,68 +8,44 @@ import { users, products } from '../fixtures/testData';
  */
 
 test.describe('Shopping Cart Functionality', () => {
-  // Before each test, log in as standard user
-  test.beforeEach(async ({ page }) => {
-    const loginPage = new LoginPage(page);
-    await loginPage.navigate();
-    await loginPage.login(users.standard.username, users.standard.password);
-    await expect(page).toHaveURL(/inventory/);
-  });
-
-  test('Add multiple items to cart from inventory', async ({ page }) => {
-    // Arrange: Initialize pages
-    const inventoryPage = new InventoryPage(page);
-    const cartPage = new CartPage(page);
-
+  test('Add multiple items to cart from inventory', async ({ inventoryPage, cartPage }) => {
     // Act: Add multiple items to cart
     await inventoryPage.addItem(products.backpack);
     await inventoryPage.addItem(products.bikeLight);
     await inventoryPage.addItem(products.boltTShirt);
 
     // Assert: Cart badge should show correct count
-    await inventoryPage.assertCartCount(3);
+    await expect(inventoryPage).toHaveCartCount(3);
 
     // Act: Navigate to cart
     await inventoryPage.goToCart();
 
     // Assert: All items should be in cart
-    await cartPage.assertItemInCart(products.backpack);
-    await cartPage.assertItemInCart(products.bikeLight);
-    await cartPage.assertItemInCart(products.boltTShirt);
+    await expect(cartPage).toContainCartItems([products.backpack, products.bikeLight, products.boltTShirt]);
     await cartPage.assertCartItemCount(3);
   });
 
-  test('Remove item from cart', async ({ page }) => {
-    // Arrange: Initialize pages and add items
-    const inventoryPage = new InventoryPage(page);
-    const cartPage = new CartPage(page);
-
-    await inventoryPage.addItem(products.backpack);
-    await inventoryPage.addItem(products.bikeLight);
-    await inventoryPage.goToCart();
+  test('Remove item from cart', async ({ cartSeeder }) => {
+    // Arrange: Seed cart and open it
+    const cartPage = await cartSeeder.openCart(['backpack', 'bikeLight']);
 
     // Assert: Both items should be in cart
     await cartPage.assertCartItemCount(2);
-    await cartPage.assertCartBadgeCount(2);
+    await expect(cartPage).toHaveCartCount(2);
 
     // Act: Remove one item
     await cartPage.removeItem(products.backpack);
 
     // Assert: Only one item remains
     await cartPage.assertCartItemCount(1);
-    await cartPage.assertCartBadgeCount(1);
+    await expect(cartPage).toHaveCartCount(1);
     await cartPage.assertItemNotInCart(products.backpack);
-    await cartPage.assertItemInCart(products.bikeLight);
+    await expect(cartPage).toContainCartItems([products.bikeLight]);
   });
 
-  test('Remove all items from cart', async ({ page }) => {
-    // Arrange: Initialize pages and add items
-    const inventoryPage = new InventoryPage(page);
-    const cartPage = new CartPage(page);
-
-    await inventoryPage.addItem(products.backpack);
-    await inventoryPage.addItem(products.bikeLight);
-    await inventoryPage.goToCart();
+  test('Remove all items from cart', async ({ cartSeeder }) => {
+    // Arrange: Seed cart and open it
+    const cartPage = await cartSeeder.openCart(['backpack', 'bikeLight']);
 
     // Assert: Items should be in cart
     await cartPage.assertCartItemCount(2);
@@ -82,42 +56,36 @@ test.describe('Shopping Cart Functionality', () => {
 
     // Assert: Cart should be empty
     await cartPage.assertCartItemCount(0);
-    await cartPage.assertCartBadgeCount(0);
+    await expect(cartPage).toHaveCartCount(0);
     const isEmpty = await cartPage.isCartEmpty();
     expect(isEmpty).toBeTruthy();
   });
 
-  test('Cart badge count updates correctly when removing items', async ({ page }) => {
-    // Arrange: Initialize pages and add items
-    const inventoryPage = new InventoryPage(page);
-    const cartPage = new CartPage(page);
-
+  test('Cart badge count updates correctly when removing items', async ({ inventoryPage, cartPage }) => {
+    // Arrange: Add items to cart
     await inventoryPage.addItem(products.backpack);
     await inventoryPage.addItem(products.bikeLight);
     await inventoryPage.addItem(products.onesie);
 
     // Assert: Badge shows 3
-    await inventoryPage.assertCartCount(3);
+    await expect(inventoryPage).toHaveCartCount(3);
 
     // Act: Navigate to cart and remove one item
     await inventoryPage.goToCart();
     await cartPage.removeItem(products.bikeLight);
 
     // Assert: Badge shows 2
-    await cartPage.assertCartBadgeCount(2);
+    await expect(cartPage).toHaveCartCount(2);
 
     // Act: Remove another item
     await cartPage.removeItem(products.onesie);
 
     // Assert: Badge shows 1
-    await cartPage.assertCartBadgeCount(1);
+    await expect(cartPage).toHaveCartCount(1);
   });
 
-  test('Cart contents match selected items from inventory', async ({ page }) => {
-    // Arrange: Initialize pages
-    const inventoryPage = new InventoryPage(page);
-    const cartPage = new CartPage(page);
-
+  test('Cart contents match selected items from inventory', async ({ inventoryPage, cartPage }) => {
+    // Arrange: Choose items to add
     const selectedItems = [products.backpack, products.fleeceJacket, products.redTShirt];
 
     // Act: Add specific items to cart
@@ -133,11 +101,8 @@ test.describe('Shopping Cart Functionality', () => {
     expect(cartItems.sort()).toEqual(selectedItems.sort());
   });
 
-  test('Continue shopping button returns to inventory', async ({ page }) => {
-    // Arrange: Initialize pages and navigate to cart
-    const inventoryPage = new InventoryPage(page);
-    const cartPage = new CartPage(page);
-
+  test('Continue shopping button returns to inventory', async ({ page, inventoryPage, cartPage }) => {
+    // Arrange: Add item and navigate to cart
     await inventoryPage.addItem(products.backpack);
     await inventoryPage.goToCart();
 
@@ -145,29 +110,21 @@ test.describe('Shopping Cart Functionality', () => {
     await cartPage.continueShopping();
 
     // Assert: Should be back on inventory page
-    await expect(page).toHaveURL(/inventory/);
+    await expect(page).toBeOnPage(InventoryPage);
   });
 
-  test('Empty cart displays correctly', async ({ page }) => {
-    // Arrange: Initialize pages
-    const inventoryPage = new InventoryPage(page);
-    const cartPage = new CartPage(page);
-
+  test('Empty cart displays correctly', async ({ inventoryPage, cartPage }) => {
     // Act: Navigate to cart without adding items
     await inventoryPage.goToCart();
 
     // Assert: Cart should be empty
     await cartPage.assertCartItemCount(0);
-    await cartPage.assertCartBadgeCount(0);
+    await expect(cartPage).toHaveCartCount(0);
     const isEmpty = await cartPage.isCartEmpty();
     expect(isEmpty).toBeTruthy();
   });
 
-  test('Cart persists items when navigating back and forth', async ({ page }) => {
-    // Arrange: Initialize pages
-    const inventoryPage = new InventoryPage(page);
-    const cartPage = new CartPage(page);
-
+  test('Cart persists items when navigating back and forth', async ({ inventoryPage, cartPage }) => {
     // Act: Add items and navigate to cart
     await inventoryPage.addItem(products.backpack);
     await inventoryPage.addItem(products.bikeLight);
@@ -180,14 +137,38 @@ test.describe('Shopping Cart Functionality', () => {
     await cartPage.continueShopping();
 
     // Assert: Cart badge still shows 2
-    await inventoryPage.assertCartCount(2);
+    await expect(inventoryPage).toHaveCartCount(2);
 
     // Act: Navigate back to cart
     await inventoryPage.goToCart();
 
     // Assert: Items still in cart
     await cartPage.assertCartItemCount(2);
-    await cartPage.assertItemInCart(products.backpack);
-    await cartPage.assertItemInCart(products.bikeLight);
+    await expect(cartPage).toContainCartItems([products.backpack, products.bikeLight]);
+  });
+});
+
+test.describe('Seeded Cart', () => {
+  test('Seeded cart shows items and badge without visiting inventory', async ({ cartSeeder }) => {
+    // Arrange: Seed cart and open it
+    const cartPage = await cartSeeder.openCart(['fleeceJacket', 'onesie', 'redTShirt']);
+
+    // Assert: Cart lists exactly the seeded items
+    const cartItems = await cartPage.getCartItemNames();
+    expect(cartItems).toEqual([products.fleeceJacket, products.onesie, products.redTShirt]);
+    await expect(cartPage).toHaveCartCount(3);
+  });
+
+  test('Seeding an empty list clears the cart', async ({ inventoryPage, cartSeeder }) => {
+    // Arrange: Put an item in the cart through the UI
+    await inventoryPage.addItem(products.backpack);
+    await expect(inventoryPage).toHaveCartCount(1);
+
+    // Act: Seed an empty cart
+    const cartPage = await cartSeeder.openCart([]);
+
+    // Assert: Cart is empty
+    await expect(cartPage).toHaveCartCount(0);
+    expect(await cartPage.isCartEmpty()).toBeTruthy();
   });
 });
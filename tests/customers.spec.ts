@@ -0,0 +1,56 @@
+import { test, expect } from '@playwright/test';
+import { CustomerFactory, countries } from '../fixtures/CustomerFactory';
+import { resolveSeed } from '../utils/random';
+
+/**
+ * Generated Customer Test Suite
+ * Checks that a seed replays the same customers, which TEST_SEED replays rely on
+ * These tests only generate data, so they run without a browser
+ */
+
+/**
+ * Generate a run of customers the way a test would: random countries, fixed countries and edge cases
+ * @param factory - Factory to draw from
+ */
+function draw(factory: CustomerFactory) {
+  return [
+    ...Array.from({ length: 5 }, () => factory.customer()),
+    ...countries.map((country) => factory.customer(country)),
+    factory.edgeCase('unicode'),
+    factory.customer(),
+  ];
+}
+
+test.describe('Generated Customers', () => {
+  test('The same TEST_SEED produces identical customers', () => {
+    const first = draw(new CustomerFactory(resolveSeed('123456789')));
+    const second = draw(new CustomerFactory(resolveSeed('123456789')));
+
+    expect(second).toEqual(first);
+  });
+
+  test('A seed produces the same customers on every machine', () => {
+    // Pinned output of seed 42: a change here means old TEST_SEED replays no longer match
+    expect(new CustomerFactory(resolveSeed('42')).customer()).toEqual({
+      firstName: 'Yui',
+      lastName: '田中',
+      postalCode: '152-6842',
+    });
+  });
+
+  test('Different seeds produce different customers', () => {
+    expect(draw(new CustomerFactory(1))).not.toEqual(draw(new CustomerFactory(2)));
+  });
+
+  test('Without TEST_SEED each run gets a fresh seed', () => {
+    const seed = resolveSeed('');
+
+    expect(Number.isInteger(seed) && seed >= 0).toBe(true);
+  });
+
+  for (const value of ['abc', '-1', '1.5']) {
+    test(`TEST_SEED "${value}" is rejected`, () => {
+      expect(() => resolveSeed(value)).toThrow(`TEST_SEED must be a non-negative integer, got "${value}"`);
+    });
+  }
+});
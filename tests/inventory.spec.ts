@@ -1,7 +1,7 @@
-import { test, expect } from '@playwright/test';
-import { LoginPage } from '../pages/LoginPage';
-import { InventoryPage } from '../pages/InventoryPage';
-import { users, products } from '../fixtures/testData';
+import { test, expect } from '../fixtures/fixtures';
+import { InventoryPage, SortOption } from '../pages/InventoryPage';
+import { CartPage } from '../pages/CartPage';
+import { products, catalog } from '../fixtures/testData';
 
 /**
  * Inventory Test Suite
@@ -9,50 +9,40 @@ import { users, products } from '../fixtures/testData';
  */
 
 test.describe('Inventory Page Functionality', () => {
-  // Before each test, log in as standard user
-  test.beforeEach(async ({ page }) => {
-    const loginPage = new LoginPage(page);
-    await loginPage.navigate();
-    await loginPage.login(users.standard.username, users.standard.password);
-    await expect(page).toHaveURL(/inventory/);
+  test('Session starts on inventory without using the login form', async ({ page, inventoryPage }) => {
+    // Assert: Saved session lands on inventory page with the full catalog
+    await expect(page).toBeOnPage(InventoryPage);
+    const itemCount = await inventoryPage.getInventoryItemCount();
+    expect(itemCount).toBe(6);
   });
 
-  test('Add item to cart and navigate to cart page', async ({ page }) => {
-    // Arrange: Initialize inventory page
-    const inventoryPage = new InventoryPage(page);
-
+  test('Add item to cart and navigate to cart page', async ({ page, inventoryPage }) => {
     // Act: Add item to cart and navigate to cart
     await inventoryPage.addItem(products.backpack);
     await inventoryPage.goToCart();
 
     // Assert: Verify navigation to cart page
-    await expect(page).toHaveURL(/cart/);
+    await expect(page).toBeOnPage(CartPage);
   });
 
-  test('Cart badge updates when item is added', async ({ page }) => {
-    // Arrange: Initialize inventory page
-    const inventoryPage = new InventoryPage(page);
-
+  test('Cart badge updates when item is added', async ({ inventoryPage }) => {
     // Assert: Cart should start empty
-    await inventoryPage.assertCartCount(0);
+    await expect(inventoryPage).toHaveCartCount(0);
 
     // Act: Add first item
     await inventoryPage.addItem(products.backpack);
 
     // Assert: Cart badge should show 1
-    await inventoryPage.assertCartCount(1);
+    await expect(inventoryPage).toHaveCartCount(1);
 
     // Act: Add second item
     await inventoryPage.addItem(products.bikeLight);
 
     // Assert: Cart badge should show 2
-    await inventoryPage.assertCartCount(2);
+    await expect(inventoryPage).toHaveCartCount(2);
   });
 
-  test('Item button changes to "Remove" after adding to cart', async ({ page }) => {
-    // Arrange: Initialize inventory page
-    const inventoryPage = new InventoryPage(page);
-
+  test('Item button changes to "Remove" after adding to cart', async ({ inventoryPage }) => {
     // Assert: Item should not be in cart initially
     await inventoryPage.assertItemCanBeAdded(products.backpack);
 
@@ -63,4 +53,32 @@ test.describe('Inventory Page Functionality', () => {
     const isInCart = await inventoryPage.isItemInCart(products.backpack);
     expect(isInCart).toBeTruthy();
   });
+
+  test('Rendered catalog matches the expected product catalog', { tag: '@catalog' }, async ({ inventoryPage }) => {
+    // Act: Read every product card
+    const renderedProducts = await inventoryPage.getProducts();
+
+    // Assert: Same number of products and identical fields for each one
+    expect(renderedProducts).toHaveLength(Object.keys(catalog).length);
+    await inventoryPage.assertCatalogMatches(Object.values(catalog));
+  });
+});
+
+test.describe('Inventory Sorting', () => {
+  test('Products are sorted by name A to Z by default', async ({ inventoryPage }) => {
+    // Assert: Default sort is active and applied
+    expect(await inventoryPage.getActiveSort()).toBe(SortOption.NameAToZ);
+    await inventoryPage.assertSortedBy(SortOption.NameAToZ);
+  });
+
+  for (const option of [SortOption.NameZToA, SortOption.PriceLowToHigh, SortOption.PriceHighToLow]) {
+    test(`Sorting by "${option}" reorders the product list`, { tag: '@sort' }, async ({ inventoryPage }) => {
+      // Act: Choose sort option
+      await inventoryPage.sortBy(option);
+
+      // Assert: Option is active and products are in that order
+      expect(await inventoryPage.getActiveSort()).toBe(option);
+      await inventoryPage.assertSortedBy(option);
+    });
+  }
 });
@@ -0,0 +1,68 @@
+import { test, expect } from '../fixtures/fixtures';
+import { InventoryPage } from '../pages/InventoryPage';
+import { CartPage } from '../pages/CartPage';
+import { products, users, errorMessages } from '../fixtures/testData';
+
+/**
+ * Custom Matcher Test Suite
+ * Verifies the shop matchers from fixtures/matchers.ts retry and explain their failures
+ */
+
+test.describe('Shop Matchers', () => {
+  test('toHaveCartCount waits for the badge to update', async ({ page, inventoryPage }) => {
+    // Arrange: Start waiting before the item is added
+    const assertion = expect(page).toHaveCartCount(1);
+
+    // Act: Add an item
+    await inventoryPage.addItem(products.backpack);
+
+    // Assert: Pending assertion should pass once the badge updates
+    await assertion;
+    await expect(inventoryPage).not.toHaveCartCount(0);
+  });
+
+  test('toHaveCartCount reports expected and received counts', async ({ page }) => {
+    // Act & Assert: A wrong count should fail with both values
+    const failure = expect(page).toHaveCartCount(2, { timeout: 500 });
+    await expect(failure).rejects.toThrow(/toHaveCartCount[\s\S]*Expected:[\s\S]*2[\s\S]*Received:[\s\S]*0/);
+  });
+
+  test('toBeOnPage names the expected page and the actual route', async ({ page }) => {
+    // Assert: We start on the inventory
+    await expect(page).toBeOnPage(InventoryPage);
+
+    // Act & Assert: Checking for the cart should name both
+    const failure = expect(page).toBeOnPage(CartPage, { timeout: 500 });
+    await expect(failure).rejects.toThrow(/CartPage[\s\S]*\/inventory\.html/);
+  });
+
+  test('toContainCartItems lists missing items', async ({ cartSeeder }) => {
+    // Arrange: Seed the cart with one product
+    const cartPage = await cartSeeder.openCart(['backpack']);
+
+    // Assert: Present items pass, missing ones are listed
+    await expect(cartPage).toContainCartItems([products.backpack]);
+    const failure = expect(cartPage).toContainCartItems([products.backpack, products.onesie], { timeout: 500 });
+    await expect(failure).rejects.toThrow(/Missing:[\s\S]*Sauce Labs Onesie/);
+  });
+});
+
+test.describe('Shop Matchers (logged out)', () => {
+  test.use({ persona: null });
+
+  test('toShowError matches the error banner text', async ({ loginPage }) => {
+    // Arrange: Open the login page
+    await loginPage.goto();
+
+    // Assert: No error before submitting
+    await expect(loginPage).not.toShowError(errorMessages.lockedUser);
+
+    // Act: Log in as the locked user
+    await loginPage.login(users.locked.username, users.locked.password);
+
+    // Assert: Exact error is shown, a different one fails
+    await expect(loginPage).toShowError(errorMessages.lockedUser);
+    const failure = expect(loginPage).toShowError(errorMessages.invalidCredentials, { timeout: 500 });
+    await expect(failure).rejects.toThrow(/locked out/);
+  });
+});
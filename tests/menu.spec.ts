@@ -0,0 +1,81 @@
+import { test, expect } from '../fixtures/fixtures';
+import { Route } from '../pages/BasePage';
+import { LoginPage } from '../pages/LoginPage';
+import { InventoryPage } from '../pages/InventoryPage';
+import { products } from '../fixtures/testData';
+
+/**
+ * Header and Menu Test Suite
+ * Tests the burger menu actions shared by every logged-in page
+ */
+
+test.describe('Header Menu', () => {
+  test('Menu opens and closes', async ({ inventoryPage }) => {
+    // Act: Open the menu
+    await inventoryPage.header.openMenu();
+
+    // Assert: Menu is open
+    expect(await inventoryPage.header.isMenuOpen()).toBeTruthy();
+
+    // Act: Close the menu
+    await inventoryPage.header.closeMenu();
+
+    // Assert: Menu is closed
+    expect(await inventoryPage.header.isMenuOpen()).toBeFalsy();
+  });
+
+  test('Logout returns to the login page', async ({ page, inventoryPage }) => {
+    // Act: Log out through the menu
+    await inventoryPage.header.logout();
+
+    // Assert: Login form is shown
+    await expect(page).not.toBeOnPage(InventoryPage);
+    await inventoryPage.at(LoginPage);
+  });
+
+  test('Inventory is not accessible after logout', async ({ inventoryPage }) => {
+    // Arrange: Log out through the menu
+    await inventoryPage.header.logout();
+
+    // Act: Try to open the inventory directly
+    await inventoryPage.navigate(Route.Inventory);
+
+    // Assert: Redirected to login with an error
+    const loginPage = await inventoryPage.at(LoginPage);
+    await loginPage.assertLoginError();
+  });
+
+  test('Reset app state clears the cart', async ({ inventoryPage, cartPage }) => {
+    // Arrange: Add items to cart
+    await inventoryPage.addItem(products.backpack);
+    await inventoryPage.addItem(products.bikeLight);
+    await expect(inventoryPage).toHaveCartCount(2);
+
+    // Act: Reset app state
+    await inventoryPage.header.resetAppState();
+
+    // Assert: Badge is gone and the cart is empty
+    await expect(inventoryPage).toHaveCartCount(0);
+    await inventoryPage.goToCart();
+    await cartPage.assertCartItemCount(0);
+  });
+
+  test('All items returns to inventory from the cart', async ({ page, inventoryPage, cartPage }) => {
+    // Arrange: Navigate to cart
+    await inventoryPage.goToCart();
+
+    // Act: Choose All Items in the menu
+    await cartPage.header.allItems();
+
+    // Assert: Back on inventory page
+    await expect(page).toBeOnPage(InventoryPage);
+  });
+
+  test('About link points to Sauce Labs', async ({ inventoryPage }) => {
+    // Act: Open the menu
+    await inventoryPage.header.openMenu();
+
+    // Assert: About leads to saucelabs.com (not followed to keep the test on the shop)
+    await expect(inventoryPage.header.aboutLink).toHaveAttribute('href', /saucelabs\.com/);
+  });
+});
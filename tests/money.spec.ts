@@ -0,0 +1,58 @@
+import { test, expect } from '@playwright/test';
+import { parseMoney, toCents, formatMoney } from '../utils/money';
+
+/**
+ * Money Helper Test Suite
+ * Covers the parsing and rounding CheckoutPage.assertTotalsConsistent relies on
+ * These tests are pure functions, so they run without a browser
+ */
+
+test.describe('Money Helpers', () => {
+  test('parseMoney reads a price label', () => {
+    expect(parseMoney('$29.99')).toBe(29.99);
+    expect(parseMoney('$ 7.99')).toBe(7.99);
+    expect(parseMoney('$10')).toBe(10);
+  });
+
+  test('parseMoney finds the amount inside a summary line', () => {
+    expect(parseMoney('Item total: $29.99')).toBe(29.99);
+    expect(parseMoney('Tax: $2.40')).toBe(2.4);
+    expect(parseMoney('Total: $32.39, incl. tax')).toBe(32.39);
+  });
+
+  test('parseMoney accepts thousands separators', () => {
+    expect(parseMoney('$1,299.99')).toBe(1299.99);
+    expect(parseMoney('Total: $12,345,678.00')).toBe(12345678);
+    expect(parseMoney('$1299.99')).toBe(1299.99);
+  });
+
+  test('parseMoney reads negative amounts', () => {
+    expect(parseMoney('Discount: $-5.00')).toBe(-5);
+  });
+
+  for (const text of [null, '', '29.99', 'Total: $', 'Free', '$.99', '$1,29', '$12,3456.00']) {
+    test(`parseMoney rejects ${JSON.stringify(text)}`, () => {
+      expect(() => parseMoney(text)).toThrow(`No dollar amount found in "${text}"`);
+    });
+  }
+
+  test('toCents converts dollars to whole cents', () => {
+    expect(toCents(29.99)).toBe(2999);
+    expect(toCents(0.1 + 0.2)).toBe(30);
+    expect(toCents(0)).toBe(0);
+  });
+
+  test('toCents rounds half away from zero', () => {
+    // 8% tax on $29.99
+    expect(toCents(2.3992)).toBe(240);
+    expect(toCents(0.125)).toBe(13);
+    expect(toCents(-0.125)).toBe(-13);
+    expect(toCents(0.124)).toBe(12);
+  });
+
+  test('formatMoney shows two decimals like the site', () => {
+    expect(formatMoney(29.99)).toBe('$29.99');
+    expect(formatMoney(2.4)).toBe('$2.40');
+    expect(formatMoney(2.3992)).toBe('$2.40');
+  });
+});
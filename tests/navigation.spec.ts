@@ -0,0 +1,67 @@
+import { test, expect } from '../fixtures/fixtures';
+import { Route } from '../pages/BasePage';
+import { CartPage } from '../pages/CartPage';
+import { CheckoutPage } from '../pages/CheckoutPage';
+import { InventoryPage } from '../pages/InventoryPage';
+import { products } from '../fixtures/testData';
+
+/**
+ * Navigation Test Suite
+ * Tests typed routes: goto() opens a page object's route and waits until it is loaded,
+ * at() verifies which page the browser is on
+ */
+
+test.describe('Page Routes', () => {
+  test('goto opens the cart and waits until it is loaded', async ({ page, cartPage }) => {
+    // Act: Open the cart through its route
+    await cartPage.goto();
+
+    // Assert: Cart is shown and ready
+    await expect(page).toBeOnPage(CartPage);
+    await expect(cartPage.checkoutButton).toBeVisible();
+  });
+
+  test('goto opens a product detail page with a query', async ({ inventoryItemPage }) => {
+    // Act: Open the backpack by id
+    await inventoryItemPage.goto(Route.InventoryItem, { id: 4 });
+
+    // Assert: Detail page shows the backpack
+    await expect(inventoryItemPage.itemName).toHaveText(products.backpack);
+  });
+
+  test('goto rejects a route of another page object', async ({ cartPage }) => {
+    // Act & Assert: The cart does not cover the inventory route
+    await expect(cartPage.goto(Route.Inventory)).rejects.toThrow('CartPage does not cover route /inventory.html');
+  });
+
+  test('at returns the page object for the current page', async ({ inventoryPage }) => {
+    // Act: Add an item and open the cart from the header
+    await inventoryPage.addItem(products.backpack);
+    await inventoryPage.goToCart();
+
+    // Assert: We are on the cart and can use it
+    const cartPage = await inventoryPage.at(CartPage);
+    await expect(cartPage).toContainCartItems([products.backpack]);
+  });
+
+  test('at names the expected and the actual page', async ({ cartSeeder }) => {
+    // Arrange: Open checkout step one
+    const checkoutPage = await cartSeeder.openCheckout(['backpack']);
+
+    // Act & Assert: Expecting the cart fails with both page names
+    await expect(checkoutPage.at(CartPage)).rejects.toThrow('expected CartPage but on checkout-step-one');
+    await checkoutPage.at(CheckoutPage);
+  });
+});
+
+test.describe('Page Routes (logged out)', () => {
+  test.use({ persona: null });
+
+  test('at reports the login redirect of a protected page', async ({ inventoryPage }) => {
+    // Act: Open the inventory without a session
+    await inventoryPage.navigate(Route.Inventory);
+
+    // Assert: The guard explains where we ended up
+    await expect(inventoryPage.at(InventoryPage)).rejects.toThrow('expected InventoryPage but on login');
+  });
+});
@@ -0,0 +1,69 @@
+import { test } from '../fixtures/fixtures';
+import { users, customerInfo, products } from '../fixtures/testData';
+
+/**
+ * Performance Test Suite
+ * Times key transitions and captures web vitals against the persona's budget
+ * (fixtures/performanceBudgets.json); every run writes test-results/timings.json
+ */
+
+test.describe('Performance Budgets', () => {
+  test('Login to inventory stays within budget', async ({ persona, inventoryPage, loginPage, perf }) => {
+    // Arrange: Log out so the persona's login is timed through the form
+    const user = users[persona ?? 'standard'];
+    await inventoryPage.header.logout();
+
+    // Act: Time the login until the inventory is shown
+    await perf.measure(
+      'loginToInventory',
+      () => loginPage.login(user.username, user.password),
+      () => inventoryPage.inventoryContainer.waitFor()
+    );
+    await perf.captureWebVitals('inventory');
+
+    // Assert: Timing and web vitals should be within budget
+    await perf.assertWithinBudget();
+  });
+
+  test('Inventory to cart stays within budget', async ({ inventoryPage, cartPage, perf }) => {
+    // Arrange: Add an item so the cart has content to render
+    await inventoryPage.addItem(products.backpack);
+
+    // Act: Time opening the cart
+    await perf.measure(
+      'inventoryToCart',
+      () => inventoryPage.goToCart(),
+      () => cartPage.checkoutButton.waitFor()
+    );
+    await perf.captureWebVitals('cart');
+
+    // Assert: Timing and web vitals should be within budget
+    await perf.assertWithinBudget();
+  });
+
+  test('Checkout steps stay within budget', { tag: ['@last-name', '@finish'] }, async ({ cartSeeder, checkoutPage, perf }) => {
+    // Arrange: Seed the cart and open it
+    const cartPage = await cartSeeder.openCart(['backpack']);
+
+    // Act: Time each checkout step
+    await perf.measure(
+      'cartToCheckoutInformation',
+      () => cartPage.beginCheckout(),
+      () => checkoutPage.firstName.waitFor()
+    );
+    await perf.measure(
+      'checkoutInformationToOverview',
+      () => checkoutPage.fillCustomerInfo(customerInfo.valid.firstName, customerInfo.valid.lastName, customerInfo.valid.postalCode),
+      () => checkoutPage.finishButton.waitFor()
+    );
+    await perf.measure(
+      'overviewToComplete',
+      () => checkoutPage.finishOrder(),
+      () => checkoutPage.confirmationHeader.waitFor()
+    );
+    await perf.captureWebVitals('checkout-complete');
+
+    // Assert: All timings and web vitals should be within budget
+    await perf.assertWithinBudget();
+  });
+});
@@ -0,0 +1,86 @@
+import { test, expect } from '../fixtures/fixtures';
+import { InventoryPage } from '../pages/InventoryPage';
+import { products, catalog } from '../fixtures/testData';
+
+/**
+ * Product Detail Test Suite
+ * Tests the item detail page and its agreement with the inventory cards
+ */
+
+test.describe('Product Detail Page', () => {
+  test('Clicking a product title opens its detail page', async ({ page, inventoryPage, inventoryItemPage }) => {
+    // Arrange: Read the product card
+    const card = await inventoryPage.getProduct(products.backpack);
+
+    // Act: Open the product from its title
+    await inventoryPage.openProductByTitle(products.backpack);
+
+    // Assert: Detail page shows the same product as the card
+    await expect(page).toHaveURL(/inventory-item\.html\?id=4/);
+    await inventoryItemPage.assertShowsProduct(card);
+  });
+
+  test('Clicking a product image opens its detail page', async ({ inventoryPage, inventoryItemPage }) => {
+    // Arrange: Read the product card
+    const card = await inventoryPage.getProduct(products.fleeceJacket);
+
+    // Act: Open the product from its image
+    await inventoryPage.openProductByImage(products.fleeceJacket);
+
+    // Assert: Detail page shows the same product as the card
+    await inventoryItemPage.assertShowsProduct(card);
+  });
+
+  test('Every detail page matches the catalog', async ({ inventoryItemPage }) => {
+    for (const product of Object.values(catalog)) {
+      // Act: Open the product by name
+      await inventoryItemPage.openByName(product.name);
+
+      // Assert: Details match the catalog entry
+      await inventoryItemPage.assertShowsProduct(product);
+    }
+  });
+
+  test('Add and remove a product from the detail page', async ({ inventoryPage, inventoryItemPage }) => {
+    // Arrange: Open product detail
+    await inventoryItemPage.open(catalog.bikeLight.id);
+
+    // Act: Add to cart
+    await inventoryItemPage.addToCart();
+
+    // Assert: Product is in cart and badge shows 1
+    expect(await inventoryItemPage.isInCart()).toBeTruthy();
+    await expect(inventoryPage).toHaveCartCount(1);
+
+    // Act: Remove from cart
+    await inventoryItemPage.removeFromCart();
+
+    // Assert: Product is no longer in cart
+    expect(await inventoryItemPage.isInCart()).toBeFalsy();
+    await expect(inventoryPage).toHaveCartCount(0);
+  });
+
+  test('Product added on detail page shows as in cart on inventory', async ({ inventoryPage, inventoryItemPage }) => {
+    // Arrange: Open product from inventory and add it
+    await inventoryPage.openProductByTitle(products.onesie);
+    await inventoryItemPage.addToCart();
+
+    // Act: Go back to products
+    await inventoryItemPage.backToProducts();
+
+    // Assert: Inventory card shows the product in cart
+    expect(await inventoryPage.isItemInCart(products.onesie)).toBeTruthy();
+    await expect(inventoryPage).toHaveCartCount(1);
+  });
+
+  test('Back to products returns to inventory', async ({ page, inventoryItemPage }) => {
+    // Arrange: Open product detail directly
+    await inventoryItemPage.open(catalog.redTShirt.id);
+
+    // Act: Return to inventory
+    await inventoryItemPage.backToProducts();
+
+    // Assert: Back on inventory page
+    await expect(page).toBeOnPage(InventoryPage);
+  });
+});
@@ -0,0 +1,109 @@
+import { test, expect } from '../fixtures/fixtures';
+import { catalog, products, customerInfo, confirmationMessages } from '../fixtures/testData';
+
+/**
+ * Network Resilience Test Suite
+ * Tests how the inventory and checkout behave when images fail, scripts are slow
+ * or the connection drops (faults are injected through the `faults` fixture)
+ */
+
+const productImages = /\/static\/media\//;
+const scripts = /\.js(\?|$)/;
+
+test.describe('Inventory Under Network Faults', () => {
+  test.describe('with failing product images', () => {
+    // Every product image answers 404 from the first page load on
+    test.use({ networkFaults: [{ url: productImages, action: 'fail', status: 404 }] });
+
+    test('Inventory stays usable when product images fail to load', async ({ page, inventoryPage, faults }) => {
+      // Assert: Every product is listed with its name and price
+      const shown = await inventoryPage.getProducts();
+      expect(shown.map((product) => [product.name, product.price])).toEqual(
+        expect.arrayContaining(Object.values(catalog).map((product) => [product.name, product.price]))
+      );
+      expect(faults.hits.length).toBeGreaterThan(0);
+
+      // Assert: Broken images still name their product
+      for (const product of Object.values(catalog)) {
+        await expect(page.getByAltText(product.name, { exact: true })).toBeVisible();
+      }
+
+      // Act & Assert: Items can still be added
+      await inventoryPage.addItems([products.backpack]);
+      await expect(inventoryPage).toHaveCartCount(1);
+    });
+  });
+
+  test('Inventory renders once slow scripts arrive', async ({ inventoryPage, faults }) => {
+    // Arrange: Hold every script for two seconds
+    await faults.delay(scripts, 2000);
+
+    // Act: Reload the inventory
+    await inventoryPage.goto();
+
+    // Assert: Products are listed and usable
+    expect(await inventoryPage.getInventoryItemCount()).toBe(Object.keys(catalog).length);
+    await inventoryPage.addItems([products.bikeLight]);
+    expect(faults.hits.some((hit) => scripts.test(hit.url))).toBeTruthy();
+  });
+
+  test('Inventory loads again after a dropped page request', async ({ inventoryPage, cartSeeder, faults }) => {
+    // Arrange: Put an item in the cart and drop the next inventory page load
+    await cartSeeder.seed(['onesie']);
+    await faults.drop(/\/inventory\.html/, 'connectionreset', 1);
+
+    // Act & Assert: The first load fails, the retry succeeds
+    await expect(inventoryPage.goto()).rejects.toThrow();
+    expect(faults.hits).toHaveLength(1);
+    await inventoryPage.goto();
+
+    // Assert: The cart was kept
+    await expect(inventoryPage).toHaveCartCount(1);
+  });
+
+  test('Inventory keeps the cart when the connection drops', async ({ page, inventoryPage, faults }) => {
+    // Arrange: Add an item, then go offline
+    await inventoryPage.addItems([products.backpack]);
+    await faults.offline();
+
+    // Act & Assert: Reloading fails while offline
+    await expect(page.reload()).rejects.toThrow();
+
+    // Act: Reconnect and open the inventory again
+    await faults.offline(false);
+    await inventoryPage.goto();
+
+    // Assert: The item is still in the cart
+    await expect(inventoryPage).toHaveCartCount(1);
+  });
+});
+
+test.describe('Checkout Under Network Faults', () => {
+  // Tests tagged @last-name need the last name field to accept input
+  test.beforeEach(async ({ cartSeeder }) => {
+    await cartSeeder.openCheckout(['backpack', 'onesie']);
+  });
+
+  test('Checkout completes on a slow connection', { tag: '@last-name' }, async ({ checkoutPage, faults }) => {
+    // Arrange: Hold every request for 300 ms
+    await faults.delay(() => true, 300);
+
+    // Act: Finish the order
+    await checkoutPage.fillInfo(customerInfo.valid).finish();
+
+    // Assert: Order is confirmed
+    await checkoutPage.assertConfirmationHeader(confirmationMessages.orderComplete);
+  });
+
+  test('Checkout completes when images fail to load', { tag: '@last-name' }, async ({ checkoutPage, faults }) => {
+    // Arrange: Fail every image, including the confirmation picture
+    await faults.fail(productImages, 503);
+
+    // Act: Finish the order
+    await checkoutPage.fillInfo(customerInfo.valid).finish();
+
+    // Assert: Order is confirmed without its picture
+    await checkoutPage.assertConfirmationHeader(confirmationMessages.orderComplete);
+    expect(faults.hits.length).toBeGreaterThan(0);
+  });
+});
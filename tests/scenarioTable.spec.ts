@@ -0,0 +1,91 @@
+import { test, expect } from '@playwright/test';
+import * as fs from 'fs';
+import { loadScenarioTable, parseCsv, TableSchema } from '../utils/scenarioTable';
+
+/**
+ * Scenario Table Test Suite
+ * Checks the loader rejects broken data files instead of producing fewer scenarios
+ * These tests only read files, so they run without a browser
+ */
+
+const schema: TableSchema = {
+  title: { type: 'string', required: true },
+  user: { type: 'string', required: true, oneOf: ['standard', 'locked'] },
+  tags: { type: 'list', pattern: /^@[\w-]+$/ },
+};
+
+/**
+ * Write a table into the test's output directory and load it with the schema above
+ * @param fileName - Name of the file; the extension picks the format
+ * @param content - File content
+ */
+function load(fileName: string, content: string) {
+  const filePath = test.info().outputPath(fileName);
+  fs.writeFileSync(filePath, content);
+  return loadScenarioTable(filePath, schema);
+}
+
+test.describe('Scenario Tables', () => {
+  test('Valid CSV rows are returned with typed columns', () => {
+    const rows = load('valid.csv', 'title,user,tags\nLogs in,standard,@smoke @login\nIs locked out,locked,\n');
+
+    expect(rows).toEqual([
+      { title: 'Logs in', user: 'standard', tags: ['@smoke', '@login'] },
+      { title: 'Is locked out', user: 'locked', tags: [] },
+    ]);
+  });
+
+  test('Quoted CSV cells may contain commas, quotes and newlines', () => {
+    expect(parseCsv('a,b\n"one, two","say ""hi""\nthere"\r\n')).toEqual([
+      ['a', 'b'],
+      ['one, two', 'say "hi"\nthere'],
+    ]);
+  });
+
+  test('An empty CSV file is rejected', () => {
+    expect(() => load('empty.csv', '\n')).toThrow('empty.csv: missing header row');
+  });
+
+  test('A CSV file with only a header is rejected', () => {
+    expect(() => load('header-only.csv', 'title,user,tags\n')).toThrow('header-only.csv: scenario table has no rows');
+  });
+
+  test('An empty JSON array is rejected', () => {
+    expect(() => load('empty.json', '[]')).toThrow('empty.json: scenario table has no rows');
+  });
+
+  test('A missing required column is reported with its row', () => {
+    expect(() => load('missing.csv', 'title,tags\nLogs in,@smoke\n')).toThrow('missing.csv row 1: "user" is required');
+  });
+
+  test('An unknown column is reported', () => {
+    expect(() => load('unknown.csv', 'title,user,usr\nLogs in,standard,locked\n')).toThrow(
+      'unknown.csv row 1: unknown column "usr" (expected title, user, tags)'
+    );
+  });
+
+  test('A value of the wrong type is reported', () => {
+    const records = [
+      { title: 'Logs in', user: 'standard', tags: '@smoke' },
+      { title: 42, user: 'standard' },
+    ];
+
+    expect(() => load('type.json', JSON.stringify(records))).toThrow('type.json row 2: "title" must be a string');
+  });
+
+  test('Values outside oneOf or the pattern are reported', () => {
+    expect(() => load('values.csv', 'title,user,tags\nLogs in,admin,smoke\n')).toThrow(
+      [
+        'Invalid scenario table values.csv:',
+        'values.csv row 1: "user" has unknown value "admin" (expected one of standard, locked)',
+        'values.csv row 1: "tags" value "smoke" does not match /^@[\\w-]+$/',
+      ].join('\n')
+    );
+  });
+
+  test('A row with the wrong number of cells is reported with its line', () => {
+    expect(() => load('cells.csv', 'title,user,tags\nLogs in,standard\n')).toThrow(
+      'cells.csv line 2: expected 3 cells, found 2'
+    );
+  });
+});
@@ -0,0 +1,74 @@
+import { test, expect } from '../fixtures/fixtures';
+import { CheckoutPage } from '../pages/CheckoutPage';
+import { products, catalog, customerInfo, confirmationMessages, orderInfo, pricing } from '../fixtures/testData';
+import { toCents } from '../utils/money';
+
+/**
+ * Shopper Workflow Test Suite
+ * Tests the fluent page actions and the ready-made journeys built on them
+ */
+
+test.describe('Shopper Workflows', () => {
+  test('Page actions chain from the inventory to the confirmation', async ({ page, inventoryPage }) => {
+    // Act: Run the whole checkout as one chain
+    const checkoutPage = await inventoryPage
+      .addItems([products.backpack, products.bikeLight])
+      .openCart()
+      .checkout()
+      .fillInfo(customerInfo.valid)
+      .finish();
+
+    // Assert: The chain ends on the confirmation step
+    await expect(page).toBeOnPage(CheckoutPage);
+    await checkoutPage.assertConfirmationHeader(confirmationMessages.orderComplete);
+  });
+
+  test('A failing step rejects the chain with its error', async ({ inventoryPage }) => {
+    // Act & Assert: Expecting checkout right after opening the cart fails the chain
+    await expect(inventoryPage.addItems([products.onesie]).openCart().at(CheckoutPage))
+      .rejects.toThrow('expected CheckoutPage but on cart');
+  });
+
+  test('Purchase returns a receipt with items, totals and confirmation', async ({ shopper }) => {
+    // Act: Buy two products as the standard user
+    const receipt = await shopper.purchase('standard', [products.backpack, products.onesie], customerInfo.valid);
+
+    // Assert: Receipt lists the products at catalog prices
+    expect(receipt.items.map((item) => [item.name, item.quantity, item.price])).toEqual([
+      [products.backpack, 1, catalog.backpack.price],
+      [products.onesie, 1, catalog.onesie.price],
+    ]);
+
+    // Assert: Totals add up with the site's tax rate
+    const itemTotal = toCents(catalog.backpack.price) + toCents(catalog.onesie.price);
+    expect(toCents(receipt.summary.itemTotal)).toBe(itemTotal);
+    expect(toCents(receipt.summary.tax)).toBe(toCents((itemTotal / 100) * pricing.taxRate));
+    expect(toCents(receipt.summary.total)).toBe(toCents(receipt.summary.itemTotal) + toCents(receipt.summary.tax));
+
+    // Assert: Payment, shipping and confirmation are recorded
+    expect(receipt.payment).toBe(orderInfo.payment);
+    expect(receipt.shipping).toBe(orderInfo.shipping);
+    expect(receipt.confirmation).toEqual({
+      header: confirmationMessages.orderComplete,
+      message: confirmationMessages.orderDispatched,
+    });
+  });
+
+  test('Purchase starts a fresh session with an empty cart', async ({ shopper, cartSeeder }) => {
+    // Arrange: Leave an item in the current session's cart
+    await cartSeeder.openCart(['fleeceJacket']);
+
+    // Act: Purchase as another persona
+    const receipt = await shopper.purchase('performance', [products.bikeLight], customerInfo.international);
+
+    // Assert: Only the purchased product is on the receipt
+    expect(receipt.items.map((item) => item.name)).toEqual([products.bikeLight]);
+    expect(receipt.customer).toEqual(customerInfo.international);
+  });
+
+  test('Purchase fails clearly for a persona that cannot log in', async ({ shopper }) => {
+    // Act & Assert: Locked-out user never reaches the inventory
+    await expect(shopper.purchase('locked', [products.backpack], customerInfo.valid))
+      .rejects.toThrow('expected InventoryPage but on login');
+  });
+});
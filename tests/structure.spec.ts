@@ -0,0 +1,63 @@
+import { test } from '../fixtures/fixtures';
+import { customerInfo, products } from '../fixtures/testData';
+
+/**
+ * Page Structure Test Suite
+ * Compares the ARIA role tree of each page's main region with its committed snapshot (tests/__aria__)
+ * Record or refresh snapshots with `npm run test:structure:update`
+ */
+
+test.describe('Page Structure (logged out)', () => {
+  test.use({ persona: null });
+
+  test('Login page structure matches snapshot', { tag: '@structure' }, async ({ loginPage }) => {
+    // Arrange: Open the login page
+    await loginPage.goto();
+
+    // Assert: Login form structure should be unchanged
+    await loginPage.assertStructure();
+  });
+});
+
+test.describe('Page Structure', () => {
+  test('Inventory structure matches snapshot', { tag: '@structure' }, async ({ inventoryPage }) => {
+    // Assert: Product list structure should be unchanged
+    await inventoryPage.assertStructure();
+  });
+
+  test('Product detail structure matches snapshot', { tag: '@structure' }, async ({ inventoryPage, inventoryItemPage }) => {
+    // Arrange: Open a product
+    await inventoryPage.openProductByTitle(products.backpack);
+
+    // Assert: Detail structure should be unchanged
+    await inventoryItemPage.assertStructure();
+  });
+
+  test('Cart structure matches snapshot', { tag: '@structure' }, async ({ cartSeeder }) => {
+    // Arrange: Seed the cart and open it
+    const cartPage = await cartSeeder.openCart(['backpack', 'bikeLight']);
+
+    // Assert: Cart structure should be unchanged
+    await cartPage.assertStructure();
+  });
+
+  test('Checkout step structures match snapshots', { tag: '@structure' }, async ({ cartSeeder }) => {
+    // Arrange: Seed the cart and start checkout
+    const checkoutPage = await cartSeeder.openCheckout(['backpack']);
+
+    // Assert: Information form structure should be unchanged
+    await checkoutPage.assertStructure();
+
+    // Act: Continue to the overview
+    await checkoutPage.fillCustomerInfo(customerInfo.valid.firstName, customerInfo.valid.lastName, customerInfo.valid.postalCode);
+
+    // Assert: Overview structure should be unchanged
+    await checkoutPage.assertStructure();
+
+    // Act: Complete the order
+    await checkoutPage.finishOrder();
+
+    // Assert: Confirmation structure should be unchanged
+    await checkoutPage.assertStructure();
+  });
+});
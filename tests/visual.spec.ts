@@ -0,0 +1,62 @@
+import { test } from '../fixtures/fixtures';
+
+/**
+ * Visual Regression Test Suite
+ * Compares each page against its committed per-browser baseline (tests/__screenshots__), or in
+ * the persona matrix against the standard user's screenshots from the same run
+ * Record or refresh baselines with `npm run test:visual:update`
+ */
+
+test.describe('Visual Baselines', () => {
+  test('Inventory page matches baseline', { tag: ['@visual', '@catalog'] }, async ({ inventoryPage }) => {
+    // Assert: Inventory should look like the baseline
+    await inventoryPage.assertMatchesBaseline();
+  });
+
+  test('Cart page matches baseline', { tag: '@visual' }, async ({ cartSeeder }) => {
+    // Arrange: Seed the cart and open it
+    const cartPage = await cartSeeder.openCart(['backpack', 'bikeLight']);
+
+    // Assert: Cart should look like the baseline
+    await cartPage.assertMatchesBaseline();
+  });
+
+  test('Checkout information step matches baseline', { tag: '@visual' }, async ({ cartSeeder }) => {
+    // Arrange: Seed the cart and start checkout
+    const checkoutPage = await cartSeeder.openCheckout(['backpack']);
+
+    // Assert: Information form should look like the baseline
+    await checkoutPage.assertMatchesBaseline();
+  });
+
+  test('Checkout overview step matches baseline', { tag: '@visual' }, async ({ cartSeeder }) => {
+    // Arrange: Seed the cart and open the overview
+    const checkoutPage = await cartSeeder.openOverview(['backpack']);
+
+    // Assert: Overview should look like the baseline
+    await checkoutPage.assertMatchesBaseline();
+  });
+
+  test('Checkout complete step matches baseline', { tag: ['@visual', '@finish'] }, async ({ cartSeeder }) => {
+    // Arrange: Seed the cart and open the overview
+    const checkoutPage = await cartSeeder.openOverview(['backpack']);
+
+    // Act: Complete the order
+    await checkoutPage.finishOrder();
+
+    // Assert: Confirmation should look like the baseline
+    await checkoutPage.assertMatchesBaseline();
+  });
+});
+
+test.describe('Visual Baselines (logged out)', () => {
+  test.use({ persona: null });
+
+  test('Login page matches baseline', async ({ loginPage }) => {
+    // Arrange: Open the login page
+    await loginPage.goto();
+
+    // Assert: Login form should look like the baseline
+    await loginPage.assertMatchesBaseline();
+  });
+});
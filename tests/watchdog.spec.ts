@@ -0,0 +1,98 @@
+import { test, expect } from '../fixtures/fixtures';
+import { products } from '../fixtures/testData';
+import { ErrorWatchdog } from '../fixtures/ErrorWatchdog';
+import { errorAllowancesFor } from '../fixtures/errorAllowlist';
+
+/**
+ * Error Watchdog Test Suite
+ * Tests the auto fixture that fails tests on page errors, console errors and failed requests.
+ * Tests marked with test.fail() pass only if the watchdog fails them
+ */
+
+test.describe('Error Watchdog', () => {
+  test('Uncaught page errors fail the test', async ({ page }) => {
+    test.fail(true, 'The watchdog must report the uncaught error');
+
+    // Act: Throw from a page script
+    const pageError = page.waitForEvent('pageerror');
+    await page.evaluate(() => setTimeout(() => { throw new Error('Watchdog check'); }));
+    await pageError;
+  });
+
+  test('Console errors fail the test', async ({ page }) => {
+    test.fail(true, 'The watchdog must report the console error');
+
+    // Act: Log an error from the page
+    const consoleError = page.waitForEvent('console', (message) => message.type() === 'error');
+    await page.evaluate(() => console.error('Watchdog check'));
+    await consoleError;
+  });
+
+  test('Failed requests fail the test', async ({ page }) => {
+    test.fail(true, 'The watchdog must report the HTTP 500');
+
+    // Arrange: Answer a request with a server error (outside the faults fixture)
+    await page.route('**/watchdog-check', (route) => route.fulfill({ status: 500, body: 'Server error' }));
+
+    // Act: Request it from the page
+    await page.evaluate(() => fetch('/watchdog-check'));
+  });
+
+  test('Requests failed by injected faults are only logged', async ({ page, faults }) => {
+    // Arrange: Fail the request through the faults fixture
+    await faults.fail(/watchdog-check/, 503);
+
+    // Act: Request it from the page
+    const status = await page.evaluate(() => fetch('/watchdog-check').then((response) => response.status));
+
+    // Assert: The fault fired and the test still passes
+    expect(status).toBe(503);
+    expect(faults.hits).toHaveLength(1);
+  });
+
+  test('Failures after reconnecting are not excused by the offline period', async ({ page, faults }) => {
+    test.fail(true, 'The watchdog must report the HTTP 500 that happened while online');
+
+    // Arrange: Drop the connection once, then restore it
+    await faults.offline();
+    await faults.offline(false);
+    await page.route('**/watchdog-check', (route) => route.fulfill({ status: 500, body: 'Server error' }));
+
+    // Act: Fail a request after reconnecting
+    await page.evaluate(() => fetch('/watchdog-check'));
+  });
+
+  test('Allowlisted errors are logged without failing the test', async ({ page, persona, errorWatchdog }) => {
+    // Arrange: Answer the error reporter the way saucedemo.com does
+    await page.route(/\.backtrace\.io\//, (route) =>
+      route.fulfill({ status: 401, headers: { 'access-control-allow-origin': '*' }, body: 'Unauthorized' }));
+
+    // Act: Post an event to the error reporter from the page
+    await page.evaluate(() => fetch('https://events.backtrace.io/api/summed-events/submit?universe=UNIVERSE&token=TOKEN', { method: 'POST' }));
+
+    // Assert: The 401 was recorded and every entry is excused by the allowlist
+    await expect.poll(() => errorWatchdog.entries.length).toBeGreaterThan(0);
+    for (const entry of errorWatchdog.entries) {
+      expect(ErrorWatchdog.findAllowance(entry, errorAllowancesFor(persona)), entry.message).toBeDefined();
+    }
+  });
+
+  test.describe('as error_user', () => {
+    test.use({ persona: 'error' });
+
+    test('JavaScript errors fail the test even when the UI looks right', async ({ page, inventoryPage }) => {
+      test.fail(true, 'error_user throws when adding the Bolt T-Shirt');
+
+      // Act: Add a product whose button throws for error_user
+      const reported = Promise.race([
+        page.waitForEvent('pageerror'),
+        page.waitForEvent('console', (message) => message.type() === 'error'),
+      ]);
+      await inventoryPage.addItem(products.boltTShirt);
+      await reported;
+
+      // Assert: Nothing visibly breaks, the page still lists the products
+      await expect(inventoryPage.inventoryItems.first()).toBeVisible();
+    });
+  });
+});
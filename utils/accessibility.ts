@@ -0,0 +1,138 @@
+import { Page } from '@playwright/test';
+
+/**
+ * Lightweight accessibility audit for SauceDemo pages
+ * Runs a handful of rules in the browser against the rendered DOM; hidden elements are skipped
+ */
+
+/**
+ * Rules checked by the audit
+ * - input-label: form fields need a label, aria-label, aria-labelledby or title (placeholders do not count)
+ * - image-alt: images need an alt attribute (alt="" marks an image as decorative)
+ * - button-name: buttons need text, a value, aria-label, aria-labelledby or title
+ * - duplicate-id: id attributes must be unique on the page
+ */
+export type AccessibilityRule = 'input-label' | 'image-alt' | 'button-name' | 'duplicate-id';
+
+/**
+ * One element breaking one rule
+ */
+export interface AccessibilityViolation {
+  rule: AccessibilityRule;
+  /** Short element description, e.g. "input#user-name" or "select.product_sort_container" */
+  target: string;
+  /** Opening tag of the element, for the report */
+  html: string;
+}
+
+/**
+ * A known violation accepted until it is fixed on the site
+ */
+export interface AccessibilityAllowance {
+  rule: AccessibilityRule;
+  /** Element description as reported in `target` (exact string or pattern) */
+  target: string | RegExp;
+  reason: string;
+}
+
+/**
+ * Run every rule against the current page
+ * @param page - The page to audit
+ * @returns All violations, in document order per rule
+ */
+export async function auditAccessibility(page: Page): Promise<AccessibilityViolation[]> {
+  return page.evaluate(() => {
+    const found: { rule: AccessibilityRule; target: string; html: string }[] = [];
+
+    const isVisible = (el: Element) => !!(el as HTMLElement).offsetParent || el.getClientRects().length > 0;
+    const describe = (el: Element) => {
+      const tag = el.tagName.toLowerCase();
+      if (el.id) return `${tag}#${el.id}`;
+      const className = el.classList[0];
+      return className ? `${tag}.${className}` : tag;
+    };
+    const openingTag = (el: Element) => el.outerHTML.slice(0, el.outerHTML.indexOf('>') + 1);
+    const report = (rule: AccessibilityRule, el: Element) => found.push({ rule, target: describe(el), html: openingTag(el) });
+    const labelledBy = (el: Element) => (el.getAttribute('aria-labelledby') || '')
+      .split(/\s+/)
+      .some((id) => !!id && !!document.getElementById(id)?.textContent?.trim());
+    const hasAriaName = (el: Element) =>
+      !!el.getAttribute('aria-label')?.trim() || labelledBy(el) || !!el.getAttribute('title')?.trim();
+
+    // input-label
+    const fields = document.querySelectorAll('input:not([type="hidden"]):not([type="submit"]):not([type="button"]):not([type="reset"]):not([type="image"]), select, textarea');
+    for (const field of Array.from(fields)) {
+      if (!isVisible(field)) continue;
+      const labels = (field as HTMLInputElement).labels;
+      const hasLabel = !!labels && Array.from(labels).some((label) => !!label.textContent?.trim());
+      if (!hasLabel && !hasAriaName(field)) report('input-label', field);
+    }
+
+    // image-alt
+    for (const image of Array.from(document.querySelectorAll('img'))) {
+      if (!isVisible(image) || image.getAttribute('role') === 'presentation') continue;
+      if (!image.hasAttribute('alt')) report('image-alt', image);
+    }
+
+    // button-name
+    const buttons = document.querySelectorAll('button, [role="button"], input[type="submit"], input[type="button"], input[type="reset"]');
+    for (const button of Array.from(buttons)) {
+      if (!isVisible(button)) continue;
+      const text = button instanceof HTMLInputElement ? button.value : button.textContent;
+      const imageAlt = Array.from(button.querySelectorAll('img[alt]')).some((img) => !!img.getAttribute('alt')?.trim());
+      if (!text?.trim() && !imageAlt && !hasAriaName(button)) report('button-name', button);
+    }
+
+    // duplicate-id
+    const seen = new Map<string, Element[]>();
+    for (const el of Array.from(document.querySelectorAll('[id]'))) {
+      seen.set(el.id, [...(seen.get(el.id) || []), el]);
+    }
+    for (const elements of Array.from(seen.values())) {
+      if (elements.length > 1) report('duplicate-id', elements[1]);
+    }
+
+    return found;
+  });
+}
+
+/**
+ * Find the allowlist entry that accepts a violation
+ * @param violation - The violation to look up
+ * @param allowlist - Accepted violations
+ * @returns The matching entry, or undefined
+ */
+export function findAllowance(
+  violation: AccessibilityViolation,
+  allowlist: AccessibilityAllowance[]
+): AccessibilityAllowance | undefined {
+  return allowlist.find((entry) => entry.rule === violation.rule && (
+    typeof entry.target === 'string' ? entry.target === violation.target : entry.target.test(violation.target)
+  ));
+}
+
+/**
+ * Render an audit as a plain-text summary for the test report
+ * @param page - Name of the audited page
+ * @param violations - Everything the audit found
+ * @param allowlist - Accepted violations
+ * @returns One line per violation, marking allowlisted ones with their reason
+ */
+export function formatAudit(
+  page: string,
+  violations: AccessibilityViolation[],
+  allowlist: AccessibilityAllowance[]
+): string {
+  const lines = violations.map((violation) => {
+    const allowance = findAllowance(violation, allowlist);
+    const status = allowance ? `allowed: ${allowance.reason}` : 'VIOLATION';
+    return `${violation.rule.padEnd(13)} ${violation.target.padEnd(36)} ${status}\n    ${violation.html}`;
+  });
+  const allowedCount = violations.filter((violation) => findAllowance(violation, allowlist)).length;
+  return [
+    `Accessibility audit: ${page}`,
+    `${violations.length - allowedCount} violation(s), ${allowedCount} allowlisted`,
+    '',
+    ...lines,
+  ].join('\n');
+}
@@ -0,0 +1,54 @@
+/**
+ * Fluent chains of asynchronous page actions
+ * A chain is a promise of a page object that also exposes the object's async methods, so
+ * actions that lead to another page can be written as one expression and awaited once:
+ * `await inventoryPage.addItems([...]).openCart().checkout()`.
+ * Each call runs after the previous one settles; the first failure rejects the whole chain.
+ */
+
+/**
+ * Promise of T whose async methods can be called before it resolves
+ * Methods returning a page object continue the chain; others (e.g. getCartCount) end it with their value
+ */
+export type Chain<T> = PromiseLike<T> & {
+  [K in keyof T as T[K] extends (...args: never[]) => PromiseLike<unknown> ? K : never]:
+    T[K] extends (...args: infer A) => PromiseLike<infer R> ? (...args: A) => Chain<R> : never;
+};
+
+/**
+ * Start a chain from an asynchronous step
+ * @param step - Runs the action and resolves to the object the chain continues with
+ * @returns The chain; await it for the final object
+ * @example
+ * openCart(): Chain<CartPage> {
+ *   return chain(async () => { await this.goToCart(); return this.at(CartPage); });
+ * }
+ */
+export function chain<T>(step: () => PromiseLike<T>): Chain<T> {
+  return fromPromise(Promise.resolve().then(step));
+}
+
+/**
+ * Wrap a promise so that property access queues a method call on its result
+ * @param promise - Promise of the current object in the chain
+ */
+function fromPromise<T>(promise: Promise<T>): Chain<T> {
+  return new Proxy({}, {
+    get(_, property) {
+      if (property === 'then' || property === 'catch' || property === 'finally') {
+        return promise[property].bind(promise);
+      }
+      if (typeof property === 'symbol') {
+        return undefined;
+      }
+      return (...args: unknown[]) => fromPromise(promise.then((target) => {
+        const method = (target as Record<string, unknown>)[property];
+        if (typeof method !== 'function') {
+          const name = (target as object | null)?.constructor?.name ?? String(target);
+          throw new Error(`Cannot chain ${property}(): not a method of ${name}`);
+        }
+        return method.apply(target, args);
+      }));
+    },
+  }) as Chain<T>;
+}
@@ -0,0 +1,44 @@
+/**
+ * Money helpers for prices shown by SauceDemo
+ * Amounts are compared in whole cents to avoid floating point drift
+ */
+
+/**
+ * Dollar amount, optionally with thousands separators ("$1,299.99")
+ * A comma that does not start a group of three digits ("$1,29") is not an amount
+ */
+const DOLLAR_AMOUNT = /\$\s*(-?(?:\d{1,3}(?:,\d{3})+|\d+)(?:\.\d+)?)(?!,?\d)/;
+
+/**
+ * Extract the dollar amount from a price label
+ * @param text - Text containing a dollar amount (e.g. "$29.99" or "Item total: $1,299.99")
+ * @returns The amount as a number
+ * @throws Error when the text holds no well-formed dollar amount
+ * @example parseMoney('Tax: $2.40') // 2.4
+ */
+export function parseMoney(text: string | null): number {
+  const match = (text || '').match(DOLLAR_AMOUNT);
+  if (!match) {
+    throw new Error(`No dollar amount found in "${text}"`);
+  }
+  return parseFloat(match[1].replace(/,/g, ''));
+}
+
+/**
+ * Convert an amount to whole cents, rounding half away from zero
+ * @param amount - The amount in dollars
+ * @returns The amount in cents
+ * @example toCents(2.3992) // 240
+ */
+export function toCents(amount: number): number {
+  return Math.sign(amount) * Math.round(Math.abs(amount) * 100);
+}
+
+/**
+ * Format an amount the way the site displays it
+ * @param amount - The amount in dollars
+ * @returns The formatted price (e.g. "$29.99")
+ */
+export function formatMoney(amount: number): string {
+  return `$${(toCents(amount) / 100).toFixed(2)}`;
+}
@@ -0,0 +1,68 @@
+/**
+ * Seeded pseudo-random numbers for reproducible generated test data
+ * The same seed always yields the same sequence (mulberry32)
+ */
+
+/**
+ * Pick a new seed for a run that did not ask for a specific one
+ * @returns A 32-bit unsigned integer
+ */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 0x100000000);
+}
+
+/**
+ * Seed for generated test data: TEST_SEED when set, otherwise a fresh one
+ * @param value - Seed text to use instead of TEST_SEED
+ * @returns A non-negative integer seed
+ * @throws Error when the value is not a non-negative integer
+ * @example resolveSeed('123456789') // 123456789
+ */
+export function resolveSeed(value: string | undefined = process.env.TEST_SEED): number {
+  const seed = value ? Number(value) : randomSeed();
+  if (!Number.isInteger(seed) || seed < 0) {
+    throw new Error(`TEST_SEED must be a non-negative integer, got "${value}"`);
+  }
+  return seed;
+}
+
+/**
+ * SeededRandom produces a repeatable sequence of numbers from a seed
+ */
+export class SeededRandom {
+  private state: number;
+
+  constructor(readonly seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  /**
+   * Next number in the sequence
+   * @returns A float in [0, 1)
+   */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  }
+
+  /**
+   * Random integer between two bounds
+   * @param min - Lowest value (inclusive)
+   * @param max - Highest value (inclusive)
+   * @example random.int(0, 9) // a single digit
+   */
+  int(min: number, max: number): number {
+    return min + Math.floor(this.next() * (max - min + 1));
+  }
+
+  /**
+   * Random element of a list
+   * @param items - Non-empty list to pick from
+   */
+  pick<T>(items: readonly T[]): T {
+    return items[this.int(0, items.length - 1)];
+  }
+}
@@ -0,0 +1,168 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Scenario tables for data-driven tests
+ * Rows are read from CSV or JSON files and checked against a schema when the spec is
+ * loaded, so a typo in a column name or value fails the run before any browser starts.
+ */
+
+/**
+ * Rule for one column
+ * - string: a single value; in CSV the cell text
+ * - list: several values; in CSV separated by spaces, in JSON an array of strings
+ */
+export interface ColumnRule {
+  type: 'string' | 'list';
+  /** The column must be present and non-empty */
+  required?: boolean;
+  /** Allowed values (for lists: allowed items) */
+  oneOf?: readonly string[];
+  /** Pattern every value must match */
+  pattern?: RegExp;
+}
+
+export type TableSchema = Record<string, ColumnRule>;
+
+/**
+ * Row type produced by a schema: string columns become strings, list columns string arrays
+ */
+export type TableRow<S extends TableSchema> = {
+  [K in keyof S]: S[K]['type'] extends 'list' ? string[] : string;
+};
+
+/**
+ * Split CSV text into rows of cells (RFC 4180: quoted cells may contain commas, quotes and newlines)
+ * @param text - CSV content
+ * @returns Rows of cell values, with blank lines dropped
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  row.push(cell);
+  rows.push(row);
+
+  return rows.filter((cells) => cells.some((value) => value.trim() !== ''));
+}
+
+/**
+ * Read raw records from a CSV (header row + data rows) or JSON (array of objects) file
+ * @param filePath - Path of the table file
+ */
+function readRecords(filePath: string): Record<string, unknown>[] {
+  const text = fs.readFileSync(filePath, 'utf-8');
+  const fileName = path.basename(filePath);
+
+  if (filePath.endsWith('.json')) {
+    const data: unknown = JSON.parse(text);
+    if (!Array.isArray(data) || data.some((record) => typeof record !== 'object' || record === null || Array.isArray(record))) {
+      throw new Error(`${fileName}: expected a JSON array of objects`);
+    }
+    return data as Record<string, unknown>[];
+  }
+  if (filePath.endsWith('.csv')) {
+    const [header, ...rows] = parseCsv(text);
+    if (!header) {
+      throw new Error(`${fileName}: missing header row`);
+    }
+    return rows.map((cells, index) => {
+      if (cells.length !== header.length) {
+        throw new Error(`${fileName} line ${index + 2}: expected ${header.length} cells, found ${cells.length}`);
+      }
+      return Object.fromEntries(header.map((column, i) => [column.trim(), cells[i].trim()]));
+    });
+  }
+  throw new Error(`${fileName}: scenario tables must be .csv or .json`);
+}
+
+/**
+ * Load a scenario table and check every row against a schema
+ * @param filePath - Path of the .csv or .json file
+ * @param schema - Expected columns and their rules
+ * @returns The validated rows; optional columns missing from a row are '' or []
+ * @throws Error when the table is empty or has no header row
+ * @throws Error listing every problem with its row number, column and offending value
+ * @example const rows = loadScenarioTable('fixtures/scenarios/login.csv', loginSchema)
+ */
+export function loadScenarioTable<S extends TableSchema>(filePath: string, schema: S): TableRow<S>[] {
+  const fileName = path.basename(filePath);
+  const records = readRecords(filePath);
+  if (records.length === 0) {
+    // An empty table would silently produce no tests, which looks like a passing suite
+    throw new Error(`${fileName}: scenario table has no rows`);
+  }
+  const problems: string[] = [];
+
+  const rows = records.map((record, index) => {
+    const where = `${fileName} row ${index + 1}`;
+    for (const column of Object.keys(record)) {
+      if (!(column in schema)) {
+        problems.push(`${where}: unknown column "${column}" (expected ${Object.keys(schema).join(', ')})`);
+      }
+    }
+
+    const row: Record<string, string | string[]> = {};
+    for (const [column, rule] of Object.entries(schema)) {
+      const raw = record[column];
+      let values: string[];
+      if (raw === undefined || raw === null || raw === '') {
+        values = [];
+      } else if (Array.isArray(raw) && rule.type === 'list' && raw.every((item) => typeof item === 'string')) {
+        values = raw;
+      } else if (typeof raw === 'string') {
+        values = rule.type === 'list' ? raw.split(/\s+/).filter(Boolean) : [raw];
+      } else {
+        problems.push(`${where}: "${column}" must be ${rule.type === 'list' ? 'a list of strings' : 'a string'}`);
+        values = [];
+      }
+
+      if (rule.required && values.length === 0) {
+        problems.push(`${where}: "${column}" is required`);
+      }
+      for (const value of values) {
+        if (rule.oneOf && !rule.oneOf.includes(value)) {
+          problems.push(`${where}: "${column}" has unknown value "${value}" (expected one of ${rule.oneOf.join(', ')})`);
+        }
+        if (rule.pattern && !rule.pattern.test(value)) {
+          problems.push(`${where}: "${column}" value "${value}" does not match ${rule.pattern}`);
+        }
+      }
+      row[column] = rule.type === 'list' ? values : (values[0] ?? '');
+    }
+    return row as TableRow<S>;
+  });
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid scenario table ${fileName}:\n${problems.join('\n')}`);
+  }
+  return rows;
+}